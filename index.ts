@@ -19,8 +19,14 @@ import {
   LOG_STAGES,
   PROVIDER_ID,
   HTTP_STATUS,
-  MODEL_FALLBACKS,
 } from "./lib/constants.js";
+import {
+  getContextCompaction,
+  getFallbackChains,
+  getModelAliases,
+  getToolOutputPolicy,
+  loadPluginConfig,
+} from "./lib/config.js";
 import { logRequest, logDebug } from "./lib/logger.js";
 import {
   createCodexHeaders,
@@ -28,13 +34,53 @@ import {
   handleErrorResponse,
   handleSuccessResponse,
   rewriteUrlForCodex,
+  sleep,
   validateCodexBackendUrl,
 } from "./lib/request/fetch-helpers.js";
-import { AccountManager } from "./lib/accounts/index.js";
-import type { ManagedAccount } from "./lib/accounts/index.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyFetchError,
+  classifyResponseStatus,
+  getRetryDelayMs,
+  parseRetryAfterMs,
+  type RetryPolicy,
+} from "./lib/request/retry-policy.js";
+import { withStreamFailover } from "./lib/request/stream-failover.js";
+import { withUsageTap } from "./lib/request/usage-tap.js";
+import {
+  FallbackChains,
+  type FallbackReason,
+  type FallbackStep,
+} from "./lib/request/fallback-chains.js";
+import { fetchWithTimeouts } from "./lib/request/timeouts.js";
+import {
+  compactInput,
+  isContextOverflowError,
+  type CompactionResult,
+} from "./lib/request/compaction.js";
+import { registerModelAliases } from "./lib/request/helpers/model-map.js";
+import { truncateToolOutputs } from "./lib/request/helpers/input-utils.js";
+import { applyModelAlias, clampReasoningEffort } from "./lib/request/request-transformer.js";
+import type { RequestBody } from "./lib/types.js";
+import {
+  AccountManager,
+  AesGcmCredentialStore,
+  CREDENTIALS_PASSPHRASE_ENV,
+  PlaintextCredentialStore,
+  createCredentialStoreFromEnv,
+  createCredentialsKeyFile,
+  getAccountHealth,
+  getAccountLabel,
+  releaseWhenBodyDone,
+  retireCredentialsKeyFile,
+} from "./lib/accounts/index.js";
+import type { CredentialStore, ManagedAccount } from "./lib/accounts/index.js";
 import { codexStatus } from "./lib/codex-status.js";
-import { prefetchModels } from "./lib/models.js";
+import { getCachedModels, prefetchModels } from "./lib/models.js";
+import { buildProviderModels, filterUserProviderModels } from "./lib/provider-models.js";
 import { SessionBindingStore } from "./lib/session-bindings.js";
+import { StorageMigrationError } from "./lib/storage-migrations.js";
+import { USAGE_RETENTION_DAYS, UsageLedger, emptyUsageTotals, formatUsageTotals } from "./lib/usage-ledger.js";
 
 function extractModelFromBody(body: string | undefined): string | undefined {
   if (!body) return undefined;
@@ -60,12 +106,41 @@ function extractPromptCacheKeyFromBody(body: string | undefined): string | undef
   }
 }
 
-let lastToastAccountIndex: number | null = null;
+/**
+ * Apply `rewrite` to the JSON request body; `init` is returned unchanged when
+ * the body is not JSON or `rewrite` reports no change.
+ */
+function rewriteRequestBody(
+  init: RequestInit | undefined,
+  rewrite: (body: RequestBody) => boolean,
+): RequestInit | undefined {
+  if (typeof init?.body !== "string") return init;
+  try {
+    const parsed = JSON.parse(init.body) as RequestBody;
+    if (!rewrite(parsed)) return init;
+    return { ...init, body: JSON.stringify(parsed) };
+  } catch {
+    return init;
+  }
+}
+
+/** Budgets shared by every attempt (failovers, retries) of one request */
+interface RequestState {
+  /** Latest time the request may be held waiting for a rate-limit reset */
+  waitDeadline: number;
+  /** Transient-failure retries spent so far */
+  transientRetries: number;
+  /** Models already given up on through fallback chains */
+  triedModels: Set<string>;
+  /** Context-overflow compactions applied so far */
+  compactions: number;
+}
+
+let lastToastAccountId: string | null = null;
 let lastToastTime = 0;
 const TOAST_DEBOUNCE_MS = 5000;
-
-/** Track which models we've already shown fallback notifications for */
-const notifiedFallbacks = new Set<string>();
+/** How often the countdown toast is refreshed while waiting for a rate-limit reset */
+const RATE_LIMIT_WAIT_TOAST_INTERVAL_MS = 30000;
 
 export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
   const quietMode = process.env.OPENCODE_OPENAI_QUIET === "1";
@@ -76,7 +151,7 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
     retryAfterMs: number,
   ) => {
     if (quietMode) return;
-    const accountLabel = account.email || `Account ${account.index + 1}`;
+    const accountLabel = getAccountLabel(account);
     const retryMinutes = Math.ceil(retryAfterMs / 60000);
     const retryText =
       retryMinutes >= 60
@@ -92,13 +167,28 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
     } catch {}
   };
 
+  const showRateLimitWaitToast = async (remainingMs: number) => {
+    if (quietMode) return;
+    const seconds = Math.ceil(remainingMs / 1000);
+    const remainingText =
+      seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+    try {
+      await client.tui.showToast({
+        body: {
+          message: `All accounts rate limited. Waiting ${remainingText} for the next reset...`,
+          variant: "warning",
+        },
+      });
+    } catch {}
+  };
+
   const showAccountSwitchToast = async (
     fromAccount: ManagedAccount,
     toAccount: ManagedAccount,
   ) => {
     if (quietMode) return;
-    const fromLabel = fromAccount.email || `Account ${fromAccount.index + 1}`;
-    const toLabel = toAccount.email || `Account ${toAccount.index + 1}`;
+    const fromLabel = getAccountLabel(fromAccount);
+    const toLabel = getAccountLabel(toAccount);
     const toPlanLabel = toAccount.planType ? ` [${toAccount.planType}]` : "";
     try {
       await client.tui.showToast({
@@ -119,16 +209,16 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 
     const now = Date.now();
     if (
-      lastToastAccountIndex === account.index &&
+      lastToastAccountId === account.id &&
       now - lastToastTime < TOAST_DEBOUNCE_MS
     ) {
       return;
     }
 
-    lastToastAccountIndex = account.index;
+    lastToastAccountId = account.id;
     lastToastTime = now;
 
-    const accountLabel = account.email || `Account ${account.index + 1}`;
+    const accountLabel = getAccountLabel(account);
     const planLabel = account.planType ? ` [${account.planType}]` : "";
     try {
       await client.tui.showToast({
@@ -148,8 +238,8 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
     totalAccounts: number,
   ) => {
     if (quietMode) return;
-    const failedLabel = failedAccount.email || `Account ${failedAccount.index + 1}`;
-    const nextLabel = nextAccount.email || `Account ${nextAccount.index + 1}`;
+    const failedLabel = getAccountLabel(failedAccount);
+    const nextLabel = getAccountLabel(nextAccount);
     const nextPlan = nextAccount.planType ? ` [${nextAccount.planType}]` : "";
     try {
       await client.tui.showToast({
@@ -164,42 +254,134 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
   const showModelFallbackToast = async (
     originalModel: string,
     fallbackModel: string,
+    reason: FallbackReason,
   ) => {
     if (quietMode) return;
-    // Only show once per model to avoid spam
-    const key = `${originalModel}->${fallbackModel}`;
-    if (notifiedFallbacks.has(key)) return;
-    notifiedFallbacks.add(key);
+    const cause =
+      reason === "unsupported"
+        ? "not available yet"
+        : "rate limited on all accounts";
+    try {
+      await client.tui.showToast({
+        body: {
+          message: `${originalModel} ${cause}. Using ${fallbackModel} instead.`,
+          variant: "warning",
+        },
+      });
+    } catch {}
+  };
+
+  const showCompactionToast = async (model: string, result: CompactionResult) => {
+    if (quietMode) return;
+    const trimmed = [
+      result.summarizedOutputs > 0 ? `${result.summarizedOutputs} tool outputs shortened` : "",
+      result.droppedToolCalls > 0 ? `${result.droppedToolCalls} tool calls removed` : "",
+      result.droppedReasoning > 0 ? `${result.droppedReasoning} reasoning items removed` : "",
+    ].filter(Boolean);
     try {
       await client.tui.showToast({
         body: {
-          message: `${originalModel} not available yet. Using ${fallbackModel} instead.`,
+          message: `Context window of ${model} exceeded. Retrying with older history trimmed: ${trimmed.join(", ")}.`,
           variant: "warning",
         },
       });
     } catch {}
   };
 
+  const parsePercentEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    if (!process.env[name] || Number.isNaN(value)) return fallback;
+    return Math.max(0, Math.min(100, value));
+  };
+
+  const parseCountEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    if (!process.env[name] || Number.isNaN(value)) return fallback;
+    return Math.max(0, value);
+  };
+
+  const parseSecondsEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    if (!process.env[name] || Number.isNaN(value)) return fallback;
+    return Math.max(0, value) * 1000;
+  };
+
+  // 0 disables waiting: a fully rate-limited pool fails fast as before.
+  const rateLimitMaxWaitMs = parseSecondsEnv(
+    "OPENCODE_OPENAI_RATE_LIMIT_WAIT_SECONDS",
+    0,
+  );
+
+  const retryPolicy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: Math.floor(
+      parseCountEnv("OPENCODE_OPENAI_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries),
+    ),
+    failover: process.env.OPENCODE_OPENAI_RETRY_FAILOVER !== "0",
+  };
+
+  const createRequestState = (): RequestState => ({
+    waitDeadline: Date.now() + rateLimitMaxWaitMs,
+    transientRetries: 0,
+    triedModels: new Set(),
+    compactions: 0,
+  });
+
+  // Once-per-pair notifications are tracked per chain, per plugin instance.
+  const pluginConfig = loadPluginConfig();
+  const fallbackChains = new FallbackChains(getFallbackChains(pluginConfig));
+  registerModelAliases(getModelAliases(pluginConfig));
+  const contextCompaction = getContextCompaction(pluginConfig);
+  // The runtime path forwards OpenCode's payload untouched unless the user
+  // configured a truncation policy.
+  const toolOutputPolicy = pluginConfig.toolOutputTruncation
+    ? getToolOutputPolicy(pluginConfig)
+    : undefined;
+
+  // A broken key setup must not take the plugin down; the accounts file then
+  // fails to load with an explicit error instead of being rewritten.
+  let credentialStore: CredentialStore | undefined;
+  try {
+    credentialStore = createCredentialStoreFromEnv();
+  } catch (error) {
+    console.error(
+      `[openai-multi-auth] ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
   const accountManager = new AccountManager({
     accountSelectionStrategy:
       (process.env.OPENCODE_OPENAI_STRATEGY as
         | "sticky"
         | "round-robin"
-        | "hybrid") || "sticky",
+        | "hybrid"
+        | "headroom") || "sticky",
     debug: process.env.OPENCODE_OPENAI_DEBUG === "1",
     quietMode: process.env.OPENCODE_OPENAI_QUIET === "1",
     pidOffsetEnabled: process.env.OPENCODE_OPENAI_PID_OFFSET === "1",
+    drainThresholds: {
+      primary: parsePercentEnv("OPENCODE_OPENAI_DRAIN_PRIMARY_PERCENT", 100),
+      secondary: parsePercentEnv("OPENCODE_OPENAI_DRAIN_SECONDARY_PERCENT", 100),
+    },
+    maxInFlightPerAccount: Math.floor(
+      parseCountEnv("OPENCODE_OPENAI_MAX_IN_FLIGHT", 0),
+    ),
+    inFlightOverflow:
+      process.env.OPENCODE_OPENAI_IN_FLIGHT_OVERFLOW === "queue" ? "queue" : "spill",
+    credentialStore,
   });
 
   await accountManager.loadFromDisk();
   await accountManager.importFromOpenCodeAuth();
+  accountManager.startWatching();
+  accountManager.startHealthProbes();
 
   const sessionBindingStore = new SessionBindingStore();
-  sessionBindingStore.loadFromDisk();
-
-  const findAccountByIndex = (index: number): ManagedAccount | null => {
-    return accountManager.getAllAccounts().find((acc) => acc.index === index) || null;
-  };
+  const usageLedger = new UsageLedger();
+  // Legacy binding files stored array indices; resolve them against the loaded accounts.
+  await sessionBindingStore.loadFromDisk(
+    (index) => accountManager.getAllAccounts()[index]?.id,
+  );
 
   const getSessionBoundAccount = async (
     sessionKey: string | undefined,
@@ -209,22 +391,80 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
       return accountManager.getNextAvailableAccount(model);
     }
 
-    const boundIndex = sessionBindingStore.get(sessionKey);
-    if (boundIndex !== undefined) {
-      const bound = findAccountByIndex(boundIndex);
-      if (bound) {
+    const boundId = sessionBindingStore.get(sessionKey);
+    if (boundId !== undefined) {
+      const bound = accountManager.getAccountById(boundId);
+      if (
+        bound &&
+        accountManager.isAccountEnabled(bound) &&
+        getAccountHealth(bound, Date.now()) !== "failed"
+      ) {
         return bound;
       }
-      sessionBindingStore.delete(sessionKey);
+      // Written in the background; the request never waits for the lock
+      void sessionBindingStore.delete(sessionKey);
     }
 
-    const account = await accountManager.getNextAvailableAccountForNewSession(model);
+    let account: ManagedAccount | null;
+    try {
+      account = await accountManager.getNextAvailableAccountForNewSession(model);
+    } catch (error) {
+      if (!(error instanceof StorageMigrationError)) throw error;
+      // The account was selected; only saving the selection failed
+      console.error(error.message);
+      account = accountManager.getActiveAccount();
+    }
     if (account) {
-      sessionBindingStore.set(sessionKey, account.index);
+      void sessionBindingStore.set(sessionKey, account.id);
     }
     return account;
   };
 
+  /**
+   * When no account can serve `model`, wait for the earliest rate-limit reset
+   * (or cool-down end) if it falls before `deadline`, refreshing a countdown
+   * toast meanwhile. Returns false without waiting when the reset is too far
+   * away or waiting is disabled; rejects with the signal's reason on abort.
+   */
+  const waitForRateLimitReset = async (
+    model: string | undefined,
+    signal: AbortSignal | null | undefined,
+    deadline: number,
+  ): Promise<boolean> => {
+    if (rateLimitMaxWaitMs <= 0) return false;
+    const availableAt = accountManager.getEarliestAvailableTime(model);
+    if (availableAt === null || availableAt > deadline) return false;
+
+    let remaining = availableAt - Date.now();
+    while (remaining > 0) {
+      await showRateLimitWaitToast(remaining);
+      await sleep(Math.min(remaining, RATE_LIMIT_WAIT_TOAST_INTERVAL_MS), signal);
+      remaining = availableAt - Date.now();
+    }
+    return true;
+  };
+
+  const getAccountStatus = (account: ManagedAccount, now: number): string => {
+    if (!accountManager.isAccountEnabled(account)) return "DISABLED";
+    const health = getAccountHealth(account, now);
+    if (health === "failed") return "FAILED (re-authenticate)";
+    if (health === "cooling-down" && account.cooldownUntil) {
+      const seconds = Math.ceil((account.cooldownUntil - now) / 1000);
+      return `COOLING DOWN (retry in ${seconds >= 60 ? `${Math.ceil(seconds / 60)}m` : `${seconds}s`})`;
+    }
+    if (health === "probing") return "RECOVERING";
+    if (accountManager.isAccountDraining(account, now)) return "DRAINING";
+    return account.id === accountManager.getActiveAccount()?.id ? "ACTIVE" : "READY";
+  };
+
+  const describeAccount = (account: ManagedAccount, now: number): string => {
+    const status = getAccountStatus(account, now);
+    const label = getAccountLabel(account);
+    const email = account.label && account.email ? ` <${account.email}>` : "";
+    const plan = account.planType || "Unknown";
+    return `${account.index + 1}. ${status} ${label}${email} [${plan}]`;
+  };
+
   const buildManualOAuthFlow = (
     pkce: { verifier: string },
     expectedState: string,
@@ -330,21 +570,145 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
           );
         }
 
+        /**
+         * Send the request again after a transient failure, once the jittered
+         * backoff has passed. With failover on, the retry goes to another
+         * usable account when there is one.
+         */
+        const retryTransientFailure = async (
+          account: ManagedAccount,
+          input: Request | string | URL,
+          init: RequestInit | undefined,
+          model: string | undefined,
+          retryCount: number,
+          triedAccountIds: Set<string>,
+          requestState: RequestState,
+          reason: string,
+          retryAfterMs?: number,
+        ): Promise<Response> => {
+          const attempt = requestState.transientRetries++;
+          const delayMs = getRetryDelayMs(attempt, retryPolicy, retryAfterMs);
+          if (debugMode) {
+            console.log(
+              `[openai-multi-auth] ${reason} on ${getAccountLabel(account)}; retry ${attempt + 1}/${retryPolicy.maxRetries} in ${delayMs}ms`,
+            );
+          }
+          await sleep(delayMs, init?.signal);
+
+          if (retryPolicy.failover) {
+            const nextAccount =
+              await accountManager.getNextAvailableAccountExcluding(triedAccountIds, model);
+            if (
+              nextAccount &&
+              nextAccount.id !== account.id &&
+              accountManager.isAccountUsable(nextAccount, model)
+            ) {
+              await showAccountSwitchToast(account, nextAccount);
+              return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIds, requestState);
+            }
+          }
+          return executeRequest(account, input, init, retryCount, triedAccountIds, requestState);
+        };
+
+        /**
+         * Re-send the request with the next model of its fallback chain, on
+         * the first account available for that model.
+         */
+        const retryWithFallbackModel = async (
+          account: ManagedAccount,
+          input: Request | string | URL,
+          init: RequestInit | undefined,
+          retryCount: number,
+          requestState: RequestState,
+          step: FallbackStep,
+          reason: FallbackReason,
+        ): Promise<Response> => {
+          requestState.triedModels.add(step.from);
+          if (fallbackChains.shouldNotify(step)) {
+            await showModelFallbackToast(step.from, step.to, reason);
+          }
+
+          const modifiedBody = JSON.parse((init?.body as string) || "{}");
+          modifiedBody.model = step.to;
+          // The fallback model may support fewer effort levels
+          clampReasoningEffort(modifiedBody);
+          const modifiedInit = {
+            ...init,
+            body: JSON.stringify(modifiedBody),
+          };
+
+          // Get first available account for the fallback model (tried accounts reset for the new model)
+          const fallbackAccount = await accountManager.getNextAvailableAccount(step.to);
+          if (fallbackAccount) {
+            return executeRequest(fallbackAccount, input, modifiedInit, 0, new Set(), requestState);
+          }
+          // If no account available, use current account
+          return executeRequest(account, input, modifiedInit, retryCount + 1, new Set(), requestState);
+        };
+
+        /**
+         * Retry on the same account with compacted input after the request
+         * exceeded the context window; null when nothing is left to compact.
+         */
+        const retryWithCompactedInput = async (
+          account: ManagedAccount,
+          input: Request | string | URL,
+          init: RequestInit | undefined,
+          retryCount: number,
+          triedAccountIds: Set<string>,
+          requestState: RequestState,
+        ): Promise<Response | null> => {
+          if (requestState.compactions >= contextCompaction.maxAttempts) return null;
+          if (typeof init?.body !== "string") return null;
+
+          let body: RequestBody;
+          try {
+            body = JSON.parse(init.body) as RequestBody;
+          } catch {
+            return null;
+          }
+          const result = Array.isArray(body.input)
+            ? compactInput(body.input, contextCompaction)
+            : null;
+          if (!result) return null;
+
+          requestState.compactions++;
+          if (debugMode) {
+            console.log(
+              `[openai-multi-auth] Context window exceeded for ${body.model}; compacted ${result.savedChars} chars (attempt ${requestState.compactions}/${contextCompaction.maxAttempts})`,
+            );
+          }
+          await showCompactionToast(body.model, result);
+
+          body.input = result.input;
+          return executeRequest(
+            account,
+            input,
+            { ...init, body: JSON.stringify(body) },
+            retryCount + 1,
+            triedAccountIds,
+            requestState,
+          );
+        };
+
         const executeRequest = async (
           account: ManagedAccount,
           input: Request | string | URL,
           init: RequestInit | undefined,
           retryCount = 0,
-          triedAccountIndices: Set<number> = new Set(),
+          triedAccountIds: Set<string> = new Set(),
+          requestState: RequestState = createRequestState(),
         ): Promise<Response> => {
+          // A user cancel also stops failovers and retries still in the queue
+          init?.signal?.throwIfAborted();
           // Track this account as tried
-          triedAccountIndices.add(account.index);
+          triedAccountIds.add(account.id);
           const isTokenValid = await accountManager.ensureValidToken(account);
           if (!isTokenValid) {
-            const nextAccount = await accountManager.getNextAvailableAccountExcluding(triedAccountIndices);
-            if (nextAccount && nextAccount.index !== account.index) {
+            const nextAccount = await accountManager.getNextAvailableAccountExcluding(triedAccountIds);
+            if (nextAccount && nextAccount.id !== account.id) {
               await showAccountSwitchToast(account, nextAccount);
-              return executeRequest(nextAccount, input, init, retryCount, triedAccountIndices);
+              return executeRequest(nextAccount, input, init, retryCount, triedAccountIds, requestState);
             }
             return new Response(
               JSON.stringify({
@@ -406,14 +770,29 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             );
           }
 
-          // Pre-fetch models to "register" client with backend
-          // This may help unlock access to newer models like gpt-5.3-codex
-          try {
-            await prefetchModels(account.access || "", accountId);
-          } catch {
-            // Ignore errors - this is a best-effort optimization
+          // Cap parallel requests per account (e.g. fanned-out subagents)
+          let releaseInFlight = accountManager.tryAcquireInFlight(account);
+          if (!releaseInFlight) {
+            if (accountManager.getInFlightOverflow() === "spill") {
+              const spillAccount =
+                await accountManager.getNextAccountWithCapacity(triedAccountIds, model);
+              if (spillAccount) {
+                if (debugMode) {
+                  console.log(
+                    `[openai-multi-auth] ${getAccountLabel(account)} at ${accountManager.getInFlightLimit()} requests in flight; spilling over to ${getAccountLabel(spillAccount)}`,
+                  );
+                }
+                return executeRequest(spillAccount, input, init, retryCount, triedAccountIds, requestState);
+              }
+            }
+            releaseInFlight = await accountManager.acquireInFlight(account, init?.signal);
           }
 
+          // Pre-fetch models to "register" client with backend
+          // This may help unlock access to newer models like gpt-5.3-codex.
+          // Runs in the background; the request never waits for it.
+          prefetchModels(account.access || "", accountId);
+
           const headers = createCodexHeaders(
             init,
             accountId,
@@ -424,10 +803,38 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             },
           );
 
-          const response = await fetch(url, {
-            ...init,
-            headers,
-          });
+          let response: Response;
+          try {
+            response = await fetchWithTimeouts("responses", url, {
+              ...init,
+              headers,
+            });
+          } catch (error) {
+            releaseInFlight();
+            if (
+              classifyFetchError(error, init?.signal) === "retryable" &&
+              requestState.transientRetries < retryPolicy.maxRetries
+            ) {
+              return retryTransientFailure(
+                account,
+                input,
+                init,
+                model,
+                retryCount,
+                triedAccountIds,
+                requestState,
+                error instanceof Error ? error.message : String(error),
+              );
+            }
+            throw error;
+          }
+          // Error responses are handled right here; successful ones hold the
+          // slot until their stream has been consumed.
+          if (response.ok) {
+            response = releaseWhenBodyDone(response, releaseInFlight);
+          } else {
+            releaseInFlight();
+          }
 
           try {
             const headersObj: Record<string, string> = {};
@@ -435,6 +842,10 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
               headersObj[key] = value;
             });
             await codexStatus.updateFromHeaders(account, headersObj);
+            const snapshot = await codexStatus.getSnapshot(account);
+            if (snapshot) {
+              accountManager.updateDrainState(account, snapshot);
+            }
           } catch (error) {
             if (debugMode) {
               console.log("[openai-multi-auth] codex-status update failed", error);
@@ -449,6 +860,25 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             accountEmail: account.email,
           });
 
+          if (
+            classifyResponseStatus(response.status) === "retryable" &&
+            requestState.transientRetries < retryPolicy.maxRetries
+          ) {
+            const retryAfterMs = parseRetryAfterMs(response.headers.get("Retry-After"));
+            await response.body?.cancel().catch(() => {});
+            return retryTransientFailure(
+              account,
+              input,
+              init,
+              model,
+              retryCount,
+              triedAccountIds,
+              requestState,
+              `HTTP ${response.status}`,
+              retryAfterMs,
+            );
+          }
+
           if (response.status === HTTP_STATUS.TOO_MANY_REQUESTS) {
             const retryAfterHeader = response.headers.get("Retry-After");
             let retryAfterMs: number;
@@ -489,21 +919,53 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             }
             if (retryCount < accountManager.getAccountCount() - 1) {
               const nextAccount =
-                await accountManager.getNextAvailableAccountExcluding(triedAccountIndices, model);
-              if (nextAccount && nextAccount.index !== account.index) {
+                await accountManager.getNextAvailableAccountExcluding(triedAccountIds, model);
+              if (nextAccount && nextAccount.id !== account.id) {
                 await showAccountSwitchToast(account, nextAccount);
-                return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIndices);
+                return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIds, requestState);
               }
             }
+
+            if (await waitForRateLimitReset(model, init?.signal, requestState.waitDeadline)) {
+              const resumedAccount = await accountManager.getNextAvailableAccount(model);
+              if (resumedAccount) {
+                return executeRequest(resumedAccount, input, init, 0, new Set(), requestState);
+              }
+            }
+
+            // Sustained limit on every account: move down the chain if it opts in
+            const rateLimitFallback = model
+              ? fallbackChains.getNext(model, "rate-limit", requestState.triedModels)
+              : null;
+            if (
+              rateLimitFallback &&
+              accountManager.getEarliestAvailableTime(rateLimitFallback.to) === null
+            ) {
+              if (debugMode) {
+                console.log(`[openai-multi-auth] ${model} rate limited on all accounts, falling back to ${rateLimitFallback.to}`);
+              }
+              return retryWithFallbackModel(account, input, init, retryCount, requestState, rateLimitFallback, "rate-limit");
+            }
           }
 
           if (response.status === HTTP_STATUS.UNAUTHORIZED) {
-            accountManager.markRefreshFailed(account, "401 Unauthorized");
+            await accountManager.markRefreshFailed(account, "401 Unauthorized");
             const nextAccount =
-              await accountManager.getNextAvailableAccountExcluding(triedAccountIndices, model);
-            if (nextAccount && nextAccount.index !== account.index) {
+              await accountManager.getNextAvailableAccountExcluding(triedAccountIds, model);
+            if (nextAccount && nextAccount.id !== account.id) {
               await showAccountSwitchToast(account, nextAccount);
-              return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIndices);
+              return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIds, requestState);
+            }
+          }
+
+          if (response.status === 400 || response.status === 413) {
+            const errorBody = await response.clone().text().catch(() => "");
+            const compacted = isContextOverflowError(errorBody)
+              ? await retryWithCompactedInput(account, input, init, retryCount, triedAccountIds, requestState)
+              : null;
+            if (compacted) {
+              await response.body?.cancel().catch(() => {});
+              return compacted;
             }
           }
 
@@ -526,10 +988,11 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
                 status: response.status, 
                 errorBody,
                 detail,
+                accountId: account.id,
                 accountIndex: account.index,
                 accountEmail: account.email,
                 accountPlanType: account.planType,
-                triedAccounts: Array.from(triedAccountIndices),
+                triedAccounts: Array.from(triedAccountIds),
                 totalAccounts: accountManager.getAccountCount(),
               }, null, 2));
               
@@ -546,7 +1009,7 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
                 }
                 
                 // STEP 1: Try other accounts first (they might be Plus/Pro/Team and support the model)
-                const nextAccount = await accountManager.getNextAvailableAccountExcluding(triedAccountIndices, requestedModel);
+                const nextAccount = await accountManager.getNextAvailableAccountExcluding(triedAccountIds, requestedModel);
                 if (nextAccount) {
                   if (debugMode) {
                     console.log(`[openai-multi-auth] Model ${requestedModel} not supported on ${account.email || account.index} [${account.planType}], trying ${nextAccount.email || nextAccount.index} [${nextAccount.planType}]`);
@@ -555,36 +1018,23 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
                     requestedModel,
                     account,
                     nextAccount,
-                    triedAccountIndices.size,
+                    triedAccountIds.size,
                     accountManager.getAccountCount(),
                   );
-                  return executeRequest(nextAccount, input, init, retryCount, triedAccountIndices);
+                  return executeRequest(nextAccount, input, init, retryCount, triedAccountIds, requestState);
                 }
                 
-                // STEP 2: All accounts tried - fall back to older model
-                const fallbackModel = MODEL_FALLBACKS[requestedModel];
-                if (fallbackModel) {
+                // STEP 2: All accounts tried - fall back along the model's chain
+                const fallback = fallbackChains.getNext(
+                  requestedModel,
+                  "unsupported",
+                  requestState.triedModels,
+                );
+                if (fallback) {
                   if (debugMode) {
-                    console.log(`[openai-multi-auth] All ${triedAccountIndices.size} accounts tried for ${requestedModel}, falling back to ${fallbackModel}`);
+                    console.log(`[openai-multi-auth] All ${triedAccountIds.size} accounts tried for ${requestedModel}, falling back to ${fallback.to}`);
                   }
-                  await showModelFallbackToast(requestedModel, fallbackModel);
-                  
-                  // Retry with fallback model using first available account (reset tried accounts for new model)
-                  const modifiedBody = JSON.parse(init?.body as string || "{}");
-                  modifiedBody.model = fallbackModel;
-                  const modifiedInit = {
-                    ...init,
-                    body: JSON.stringify(modifiedBody),
-                  };
-                  
-                  // Get first available account for the fallback model
-                  const fallbackAccount = await accountManager.getNextAvailableAccount(fallbackModel);
-                  if (fallbackAccount) {
-                    // Reset tried accounts for the new model
-                    return executeRequest(fallbackAccount, input, modifiedInit, 0, new Set());
-                  }
-                  // If no account available, use current account
-                  return executeRequest(account, input, modifiedInit, retryCount + 1, new Set());
+                  return retryWithFallbackModel(account, input, init, retryCount, requestState, fallback, "unsupported");
                 }
               }
             } catch {
@@ -596,7 +1046,45 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             return await handleErrorResponse(response);
           }
 
-          return await handleSuccessResponse(response, isStreaming);
+          accountManager.recordSuccess(account);
+
+          // Tapped per upstream response, so a failed-over stream is not counted twice
+          response = withUsageTap(response, (observed) => {
+            usageLedger.record(
+              account.id,
+              model ?? observed.model ?? "unknown",
+              promptCacheKey,
+              observed.usage,
+            );
+          });
+
+          const failoverResponse = withStreamFailover(response, {
+            signal: init?.signal,
+            reissue: async (reason) => {
+              if (requestState.transientRetries >= retryPolicy.maxRetries) return null;
+              const nextAccount =
+                await accountManager.getNextAvailableAccountExcluding(triedAccountIds, model);
+              if (
+                !nextAccount ||
+                nextAccount.id === account.id ||
+                !accountManager.isAccountUsable(nextAccount, model)
+              ) {
+                return null;
+              }
+              requestState.transientRetries++;
+              if (debugMode) {
+                console.log(
+                  `[openai-multi-auth] ${reason} on ${getAccountLabel(account)} before any output; re-issuing on ${getAccountLabel(nextAccount)}`,
+                );
+              }
+              await showAccountSwitchToast(account, nextAccount);
+              return executeRequest(nextAccount, input, init, retryCount + 1, triedAccountIds, requestState);
+            },
+            compact: () =>
+              retryWithCompactedInput(account, input, init, retryCount, triedAccountIds, requestState),
+          });
+
+          return await handleSuccessResponse(failoverResponse, isStreaming);
         };
 
         return {
@@ -606,11 +1094,31 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             input: Request | string | URL,
             init?: RequestInit,
           ): Promise<Response> {
+            // Model aliases resolve to their API model and defaults
+            init = rewriteRequestBody(init, applyModelAlias);
+            // Efforts the model does not support are clamped to the nearest one
+            init = rewriteRequestBody(init, clampReasoningEffort);
+            if (toolOutputPolicy) {
+              init = rewriteRequestBody(init, (body) => {
+                if (!Array.isArray(body.input)) return false;
+                const truncated = truncateToolOutputs(body.input, toolOutputPolicy);
+                if (truncated.every((item, index) => item === body.input![index])) return false;
+                body.input = truncated;
+                return true;
+              });
+            }
             const requestBody =
               typeof init?.body === "string" ? (init.body as string) : undefined;
             const model = extractModelFromBody(requestBody);
             const sessionKey = extractPromptCacheKeyFromBody(requestBody);
-            const account = await getSessionBoundAccount(sessionKey, model);
+            const requestState = createRequestState();
+            let account = await getSessionBoundAccount(sessionKey, model);
+            while (
+              (!account || !accountManager.isAccountUsable(account, model)) &&
+              (await waitForRateLimitReset(model, init?.signal, requestState.waitDeadline))
+            ) {
+              account = await getSessionBoundAccount(sessionKey, model);
+            }
 
             if (!account) {
               return new Response(
@@ -624,7 +1132,7 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 
             await showAccountToast(account, accountManager.getAccountCount());
 
-            return executeRequest(account, input, init);
+            return executeRequest(account, input, init, 0, new Set(), requestState);
           },
         };
       },
@@ -687,6 +1195,27 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
       output.headers.session_id = input.sessionID;
     },
     config: async (cfg) => {
+      // Offer what the accounts can actually use; models declared in
+      // opencode.json keep their settings.
+      const chatgptAccountIds = accountManager
+        .getAllAccounts()
+        .filter((account) => accountManager.isAccountEnabled(account))
+        .map((account) => account.accountId || extractAccountIdFromToken(account.access || ""))
+        .filter((accountId): accountId is string => !!accountId);
+      cfg.provider = cfg.provider || {};
+      const openaiProvider = (cfg.provider[PROVIDER_ID] = cfg.provider[PROVIDER_ID] || {});
+      const modelsByAccount = [...getCachedModels(chatgptAccountIds).values()];
+      const userModels = filterUserProviderModels(openaiProvider.models ?? {}, modelsByAccount);
+      if (debugMode && userModels.dropped.length > 0) {
+        console.log(
+          `[openai-multi-auth] Hiding models no account can use: ${userModels.dropped.join(", ")}`,
+        );
+      }
+      openaiProvider.models = {
+        ...buildProviderModels(modelsByAccount),
+        ...userModels.models,
+      };
+
       cfg.command = cfg.command || {};
       cfg.command["codex-status"] = {
         template:
@@ -694,10 +1223,31 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
         description: "List all configured OpenAI accounts and their current usage status.",
       };
 
+      cfg.command["codex-toggle-account"] = {
+        template:
+          "Run the codex-toggle-account tool with these arguments: $ARGUMENTS. Output the result EXACTLY as returned by the tool, without any additional text or commentary.",
+        description: "Enable or disable an OpenAI account without removing it.",
+      };
+
+      cfg.command["codex-accounts"] = {
+        template:
+          "Run the codex-accounts tool with these arguments: $ARGUMENTS. Use action \"list\" when no arguments are given. Output the result EXACTLY as returned by the tool, without any additional text or commentary.",
+        description:
+          "Manage OpenAI accounts: list, rename, remove, move, reset failures, set the active account, or encrypt/decrypt stored credentials.",
+      };
+
+      cfg.command["codex-usage"] = {
+        template:
+          "Run the codex-usage tool with these arguments: $ARGUMENTS. Output the result EXACTLY as returned by the tool, without any additional text or commentary.",
+        description: "Show token usage per OpenAI account, model or session.",
+      };
+
       cfg.experimental = cfg.experimental || {};
       cfg.experimental.primary_tools = cfg.experimental.primary_tools || [];
-      if (!cfg.experimental.primary_tools.includes("codex-status")) {
-        cfg.experimental.primary_tools.push("codex-status");
+      for (const toolName of ["codex-status", "codex-toggle-account", "codex-accounts", "codex-usage"]) {
+        if (!cfg.experimental.primary_tools.includes(toolName)) {
+          cfg.experimental.primary_tools.push(toolName);
+        }
       }
     },
     tool: {
@@ -706,6 +1256,17 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
         args: {},
         async execute() {
           const accounts = accountManager.getAllAccounts();
+          const storageError = accountManager.getStorageError();
+          if (storageError) {
+            return [
+              "OpenAI Codex Status",
+              "",
+              "  Accounts file could not be loaded:",
+              `  ${storageError.message}`,
+              "",
+              "Fix or restore the file (migration backups end in .bak); it is reloaded automatically.",
+            ].join("\n");
+          }
           if (accounts.length === 0) {
             return [
               "OpenAI Codex Status",
@@ -726,16 +1287,19 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
             }),
           );
 
-          const active = accountManager.getActiveAccount();
-          const activeIndex = active?.index ?? 0;
           const lines: string[] = ["OpenAI Codex Status", ""];
 
+          const drainThresholds = accountManager.getDrainThresholds();
           for (const account of accounts) {
-            const status = account.index === activeIndex ? "ACTIVE" : "READY";
-            const email = account.email || `Account ${account.index + 1}`;
-            const plan = account.planType || "Unknown";
-            lines.push(`${account.index + 1}. ${status} ${email} [${plan}]`);
-            const statusLines = await codexStatus.renderStatus(account);
+            lines.push(describeAccount(account, now));
+            const statusLines = await codexStatus.renderStatus(account, {
+              drainThresholds,
+              inFlight: {
+                ...accountManager.getInFlightCount(account),
+                limit: accountManager.getInFlightLimit(),
+              },
+              usage: usageLedger.getAccountTotals(account.id),
+            });
             for (const line of statusLines) {
               lines.push(line);
             }
@@ -745,6 +1309,198 @@ export const OpenAIAuthPlugin: Plugin = async ({ client }: PluginInput) => {
           return lines.join("\n");
         },
       }),
+      "codex-toggle-account": tool({
+        description:
+          "Enable or disable an OpenAI account. Disabled accounts keep their credentials but are skipped by account rotation.",
+        args: {
+          account: tool.schema
+            .string()
+            .describe("Account number as shown by codex-status, account ID, or email"),
+          enabled: tool.schema
+            .boolean()
+            .optional()
+            .describe("true to enable, false to disable; omit to toggle"),
+        },
+        async execute(args) {
+          const account = accountManager.findAccount(args.account);
+          if (!account) {
+            return `No OpenAI account matches "${args.account}". Run codex-status to list accounts.`;
+          }
+
+          const enabled = args.enabled ?? !accountManager.isAccountEnabled(account);
+          await accountManager.setAccountEnabled(account, enabled);
+
+          const label = getAccountLabel(account);
+          return `${account.index + 1}. ${label} is now ${enabled ? "ENABLED" : "DISABLED"}.`;
+        },
+      }),
+      "codex-accounts": tool({
+        description:
+          "Manage configured OpenAI accounts: list them, rename (label), remove, move to a new position, reset failure counters, set the active account, or encrypt/decrypt stored credentials.",
+        args: {
+          action: tool.schema
+            .enum(["list", "rename", "remove", "move", "reset", "activate", "encrypt", "decrypt"])
+            .describe("Operation to perform"),
+          account: tool.schema
+            .string()
+            .optional()
+            .describe("Account number as shown by codex-status, account ID, or email (all actions except list, encrypt and decrypt)"),
+          value: tool.schema
+            .string()
+            .optional()
+            .describe("New label for rename (empty clears it), or the 1-based target position for move"),
+        },
+        async execute(args) {
+          const now = Date.now();
+          const listAccounts = () => {
+            const accounts = accountManager.getAllAccounts();
+            if (accounts.length === 0) {
+              return "No OpenAI accounts configured. Add one with: opencode auth login";
+            }
+            const lines: string[] = ["OpenAI Accounts", ""];
+            for (const account of accounts) {
+              lines.push(describeAccount(account, now));
+              lines.push(`   id: ${account.id}`);
+              if (account.consecutiveFailures > 0) {
+                lines.push(
+                  `   failures: ${account.consecutiveFailures}${account.lastRefreshError ? ` (${account.lastRefreshError})` : ""}`,
+                );
+              }
+            }
+            return lines.join("\n");
+          };
+
+          if (args.action === "list") {
+            return listAccounts();
+          }
+
+          if (args.action === "encrypt") {
+            if (accountManager.getCredentialStore().encrypted) {
+              return "Stored credentials are already encrypted.";
+            }
+            try {
+              const keyFile = createCredentialsKeyFile();
+              await accountManager.setCredentialStore(
+                AesGcmCredentialStore.fromKeyFile(keyFile),
+              );
+              return [
+                `Encrypted stored credentials with a new key in ${keyFile}.`,
+                "Without this file the accounts cannot be read; keep it out of anything the accounts file is copied to.",
+                "Restart other running OpenCode instances so they pick up the key.",
+              ].join("\n");
+            } catch (error) {
+              return `Could not encrypt credentials: ${error instanceof Error ? error.message : String(error)}`;
+            }
+          }
+
+          if (args.action === "decrypt") {
+            const store = accountManager.getCredentialStore();
+            if (!store.encrypted) {
+              return "Stored credentials are already in plaintext.";
+            }
+            try {
+              await accountManager.setCredentialStore(new PlaintextCredentialStore(store));
+            } catch (error) {
+              return `Could not decrypt credentials: ${error instanceof Error ? error.message : String(error)}`;
+            }
+            if (process.env[CREDENTIALS_PASSPHRASE_ENV]) {
+              return `Stored credentials are in plaintext again. Unset ${CREDENTIALS_PASSPHRASE_ENV}, or the next OpenCode start encrypts them again.`;
+            }
+            const retired = retireCredentialsKeyFile();
+            return [
+              "Stored credentials are in plaintext again.",
+              retired ? `The keyfile was moved to ${retired}; delete it once you no longer need old backups.` : "",
+              "Restart other running OpenCode instances.",
+            ]
+              .filter(Boolean)
+              .join("\n");
+          }
+
+          if (!args.account) {
+            return `The ${args.action} action needs an account (number, ID, or email).`;
+          }
+          const account = accountManager.findAccount(args.account);
+          if (!account) {
+            return `No OpenAI account matches "${args.account}". Run codex-accounts with action list to see accounts.`;
+          }
+          const previousLabel = getAccountLabel(account);
+
+          switch (args.action) {
+            case "rename":
+              await accountManager.setAccountLabel(account, args.value);
+              return `Renamed ${previousLabel} to ${getAccountLabel(account)}.`;
+            case "remove":
+              try {
+                await accountManager.removeAccount(account);
+              } catch (error) {
+                return `Could not remove ${previousLabel}: ${error instanceof Error ? error.message : String(error)}`;
+              }
+              return `Removed ${previousLabel}. Sessions bound to it will switch accounts on their next request.`;
+            case "move": {
+              const position = Number(args.value);
+              if (!Number.isInteger(position) || position < 1) {
+                return "The move action needs a target position (1-based) in value.";
+              }
+              await accountManager.moveAccount(account, position);
+              return listAccounts();
+            }
+            case "reset":
+              await accountManager.resetAccountFailures(account);
+              return `Reset failure counter for ${previousLabel}.`;
+            case "activate":
+              await accountManager.setActiveAccount(account);
+              return `${previousLabel} is now the active account for new sessions.`;
+          }
+        },
+      }),
+      "codex-usage": tool({
+        description:
+          "Report token usage (input, cached, output and reasoning tokens) recorded from completed responses, grouped by account, model or session.",
+        args: {
+          by: tool.schema
+            .enum(["account", "model", "session"])
+            .optional()
+            .describe("Grouping (default: account)"),
+          days: tool.schema
+            .number()
+            .optional()
+            .describe(`Only count the last N days, today included (default and maximum: ${USAGE_RETENTION_DAYS})`),
+        },
+        async execute(args) {
+          const by = args.by ?? "account";
+          const days =
+            args.days !== undefined && args.days > 0
+              ? Math.min(Math.ceil(args.days), USAGE_RETENTION_DAYS)
+              : USAGE_RETENTION_DAYS;
+          const groups = usageLedger.summarize(by, days);
+          const period = days === 1 ? "today" : `last ${days} days`;
+          if (groups.length === 0) {
+            return `No token usage recorded (${period}).`;
+          }
+
+          const describeKey = (key: string) => {
+            if (by === "account") {
+              const account = accountManager.getAccountById(key);
+              return account ? getAccountLabel(account) : `${key} (removed)`;
+            }
+            if (by === "session") return key || "(no session)";
+            return key;
+          };
+
+          const total = emptyUsageTotals();
+          const lines = [`OpenAI Codex Usage (${period}, by ${by})`, ""];
+          for (const { key, totals } of groups) {
+            lines.push(`  ${describeKey(key)}: ${formatUsageTotals(totals)}`);
+            total.requests += totals.requests;
+            total.inputTokens += totals.inputTokens;
+            total.cachedInputTokens += totals.cachedInputTokens;
+            total.outputTokens += totals.outputTokens;
+            total.reasoningTokens += totals.reasoningTokens;
+          }
+          lines.push("", `  Total: ${formatUsageTotals(total)}`);
+          return lines.join("\n");
+        },
+      }),
     },
   };
 };
@@ -0,0 +1,238 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { ensureSecureDir, ensureSecureFile } from "../secure-file.js";
+import type {
+  CredentialStore,
+  ManagedAccount,
+  SealedCredentials,
+  StoredAccount,
+} from "./types.js";
+
+export const CREDENTIALS_PASSPHRASE_ENV = "OPENCODE_OPENAI_CREDENTIALS_PASSPHRASE";
+export const CREDENTIALS_KEYFILE_ENV = "OPENCODE_OPENAI_CREDENTIALS_KEYFILE";
+
+export const DEFAULT_CREDENTIALS_KEYFILE = join(
+  homedir(),
+  ".config",
+  "opencode",
+  "openai-accounts.key",
+);
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+interface SealedPayload {
+  refreshToken: string;
+  access?: string;
+}
+
+export class CredentialStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialStoreError";
+  }
+}
+
+/** Stores credentials as-is; relies on the 0600 file mode only. */
+export class PlaintextCredentialStore implements CredentialStore {
+  readonly encrypted = false;
+
+  /**
+   * @param opener - Store able to read sealed credentials while switching back
+   *   to plaintext (see `codex-accounts decrypt`)
+   */
+  constructor(private readonly opener?: CredentialStore) {}
+
+  seal(account: ManagedAccount): StoredAccount {
+    return account;
+  }
+
+  open(account: StoredAccount): ManagedAccount {
+    if (account.sealed) {
+      if (this.opener) return this.opener.open(account);
+      throw new CredentialStoreError(
+        `Accounts file contains encrypted credentials but no key is configured; set ${CREDENTIALS_PASSPHRASE_ENV} or ${CREDENTIALS_KEYFILE_ENV} (or restore ${DEFAULT_CREDENTIALS_KEYFILE}) and restart OpenCode`,
+      );
+    }
+    return toManagedAccount(account);
+  }
+}
+
+type KeySource =
+  | { kind: "scrypt"; passphrase: string }
+  | { kind: "keyfile"; key: Buffer };
+
+/**
+ * Encrypts each account's refresh and access token with AES-256-GCM. The
+ * account ID is bound as additional authenticated data, so sealed blobs
+ * cannot be swapped between accounts.
+ */
+export class AesGcmCredentialStore implements CredentialStore {
+  readonly encrypted = true;
+  private readonly salt = randomBytes(SALT_BYTES);
+  /** scrypt is deliberately slow; derive once per salt. */
+  private readonly derivedKeys = new Map<string, Buffer>();
+
+  private constructor(private readonly source: KeySource) {}
+
+  static fromPassphrase(passphrase: string): AesGcmCredentialStore {
+    if (!passphrase) {
+      throw new CredentialStoreError("Credential passphrase must not be empty");
+    }
+    return new AesGcmCredentialStore({ kind: "scrypt", passphrase });
+  }
+
+  static fromKeyFile(path: string): AesGcmCredentialStore {
+    ensureSecureFile(path);
+    const key = Buffer.from(readFileSync(path, "utf-8").trim(), "base64");
+    if (key.length !== KEY_BYTES) {
+      throw new CredentialStoreError(
+        `Credential keyfile ${path} must contain ${KEY_BYTES} base64-encoded bytes`,
+      );
+    }
+    return new AesGcmCredentialStore({ kind: "keyfile", key });
+  }
+
+  private getKey(salt?: Buffer): Buffer {
+    if (this.source.kind === "keyfile") return this.source.key;
+    if (!salt) {
+      throw new CredentialStoreError("Sealed credentials are missing their scrypt salt");
+    }
+
+    const cacheKey = salt.toString("base64");
+    let key = this.derivedKeys.get(cacheKey);
+    if (!key) {
+      key = scryptSync(this.source.passphrase, salt, KEY_BYTES);
+      this.derivedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  seal(account: ManagedAccount): StoredAccount {
+    const { parts, access, ...rest } = account;
+    const payload: SealedPayload = { refreshToken: parts.refreshToken, access };
+
+    const iv = randomBytes(IV_BYTES);
+    const salt = this.source.kind === "scrypt" ? this.salt : undefined;
+    const cipher = createCipheriv("aes-256-gcm", this.getKey(salt), iv);
+    cipher.setAAD(Buffer.from(account.id, "utf-8"));
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(payload), "utf-8"),
+      cipher.final(),
+    ]);
+
+    return {
+      ...rest,
+      sealed: {
+        alg: "aes-256-gcm",
+        kdf: this.source.kind,
+        salt: salt?.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      },
+    };
+  }
+
+  open(account: StoredAccount): ManagedAccount {
+    const { sealed } = account;
+    if (!sealed) return toManagedAccount(account);
+
+    if (sealed.kdf !== this.source.kind) {
+      throw new CredentialStoreError(
+        sealed.kdf === "scrypt"
+          ? `Credentials were encrypted with a passphrase; set ${CREDENTIALS_PASSPHRASE_ENV}`
+          : `Credentials were encrypted with a keyfile; unset ${CREDENTIALS_PASSPHRASE_ENV} and restore ${DEFAULT_CREDENTIALS_KEYFILE} (or set ${CREDENTIALS_KEYFILE_ENV})`,
+      );
+    }
+
+    let payload: SealedPayload;
+    try {
+      const salt = sealed.salt ? Buffer.from(sealed.salt, "base64") : undefined;
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        this.getKey(salt),
+        Buffer.from(sealed.iv, "base64"),
+      );
+      decipher.setAAD(Buffer.from(account.id, "utf-8"));
+      decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(sealed.data, "base64")),
+        decipher.final(),
+      ]);
+      payload = JSON.parse(plaintext.toString("utf-8")) as SealedPayload;
+    } catch (error) {
+      if (error instanceof CredentialStoreError) throw error;
+      throw new CredentialStoreError(
+        `Could not decrypt credentials for ${account.email || account.id}: wrong passphrase or keyfile`,
+      );
+    }
+
+    const { sealed: _sealed, ...rest } = account;
+    return {
+      ...rest,
+      parts: { refreshToken: payload.refreshToken },
+      access: payload.access,
+    };
+  }
+}
+
+function toManagedAccount(account: StoredAccount): ManagedAccount {
+  const { sealed: _sealed, ...rest } = account;
+  return { ...rest, parts: { refreshToken: account.parts?.refreshToken ?? "" } };
+}
+
+export function getCredentialsKeyFilePath(): string {
+  return process.env[CREDENTIALS_KEYFILE_ENV] || DEFAULT_CREDENTIALS_KEYFILE;
+}
+
+/**
+ * Pick the credential store from the environment: a passphrase wins, then
+ * an existing keyfile; without either, credentials stay in plaintext.
+ */
+export function createCredentialStoreFromEnv(): CredentialStore {
+  const passphrase = process.env[CREDENTIALS_PASSPHRASE_ENV];
+  if (passphrase) return AesGcmCredentialStore.fromPassphrase(passphrase);
+
+  const keyFile = getCredentialsKeyFilePath();
+  if (existsSync(keyFile)) return AesGcmCredentialStore.fromKeyFile(keyFile);
+
+  return new PlaintextCredentialStore();
+}
+
+/**
+ * Write a new random keyfile (0600). Refuses to replace an existing key,
+ * since that would make everything sealed with it unreadable.
+ */
+export function createCredentialsKeyFile(path = getCredentialsKeyFilePath()): string {
+  ensureSecureDir(dirname(path));
+  try {
+    writeFileSync(path, `${randomBytes(KEY_BYTES).toString("base64")}\n`, {
+      encoding: "utf-8",
+      mode: 0o600,
+      flag: "wx",
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new CredentialStoreError(`Credential keyfile ${path} already exists`);
+    }
+    throw error;
+  }
+  return path;
+}
+
+/** Move a keyfile aside after decrypting, so it is no longer picked up. */
+export function retireCredentialsKeyFile(path = getCredentialsKeyFilePath()): string | null {
+  if (!existsSync(path)) return null;
+  const retired = `${path}.disabled-${Date.now()}`;
+  renameSync(path, retired);
+  return retired;
+}
@@ -0,0 +1,42 @@
+import type { CodexRateLimitSnapshot } from "../codex-status.js";
+
+type UsageWindow = CodexRateLimitSnapshot["primary"];
+
+/**
+ * Effective remaining quota (0-100) for a single usage window.
+ *
+ * Quota that is about to be handed back by a reset is counted as available:
+ * a window that resets in 10% of its length contributes 90% of its used share
+ * back, so accounts with imminent resets are drained first instead of letting
+ * their remaining quota expire unused.
+ */
+export function getWindowHeadroom(window: UsageWindow, now: number): number {
+  if (!window) return 100;
+
+  const usedPercent = Math.max(0, Math.min(100, window.usedPercent));
+  const leftPercent = 100 - usedPercent;
+
+  if (!window.resetAt || window.resetAt <= 0) return leftPercent;
+  if (window.resetAt <= now) return 100;
+
+  const windowMs = window.windowMinutes * 60 * 1000;
+  if (windowMs <= 0) return leftPercent;
+
+  const untilResetMs = Math.min(window.resetAt - now, windowMs);
+  const elapsedFraction = 1 - untilResetMs / windowMs;
+  return leftPercent + usedPercent * elapsedFraction;
+}
+
+/**
+ * Headroom score for an account snapshot: the tighter of the 5h (primary)
+ * and weekly (secondary) windows, since whichever runs out first triggers a 429.
+ */
+export function getHeadroomScore(
+  snapshot: Pick<CodexRateLimitSnapshot, "primary" | "secondary">,
+  now: number,
+): number {
+  return Math.min(
+    getWindowHeadroom(snapshot.primary, now),
+    getWindowHeadroom(snapshot.secondary, now),
+  );
+}
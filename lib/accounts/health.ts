@@ -0,0 +1,45 @@
+import type { FailureBackoff, ManagedAccount } from "./types.js";
+
+/**
+ * - `healthy`: no recorded failures
+ * - `cooling-down`: transient failure, excluded until `cooldownUntil`
+ * - `probing`: cool-down elapsed; the next request or probe decides (half-open)
+ * - `failed`: permanent failure (e.g. `invalid_grant`), needs re-authentication
+ */
+export type AccountHealth = "healthy" | "cooling-down" | "probing" | "failed";
+
+/** Refresh errors the auth server will keep returning no matter how often we retry. */
+const PERMANENT_FAILURE_PATTERN = /invalid_grant|refresh_token_reused|re-authenticate/i;
+
+export function classifyFailure(error: string): "transient" | "permanent" {
+  return PERMANENT_FAILURE_PATTERN.test(error) ? "permanent" : "transient";
+}
+
+/** Cool-down after the n-th consecutive failure: base, 2x base, 4x base, ... capped at max. */
+export function getFailureCooldownMs(
+  consecutiveFailures: number,
+  backoff: FailureBackoff,
+): number {
+  const exponent = Math.max(0, consecutiveFailures - 1);
+  return Math.min(backoff.maxMs, backoff.baseMs * 2 ** Math.min(exponent, 30));
+}
+
+export function getAccountHealth(account: ManagedAccount, now: number): AccountHealth {
+  if (account.failureKind === "permanent") return "failed";
+  if (account.consecutiveFailures <= 0) return "healthy";
+  if (account.cooldownUntil && account.cooldownUntil > now) return "cooling-down";
+  return "probing";
+}
+
+/** Healthy and half-open accounts may serve requests; the rest are skipped. */
+export function isAccountSelectable(account: ManagedAccount, now: number): boolean {
+  const health = getAccountHealth(account, now);
+  return health === "healthy" || health === "probing";
+}
+
+export function clearAccountFailures(account: ManagedAccount): void {
+  account.consecutiveFailures = 0;
+  account.failureKind = undefined;
+  account.cooldownUntil = undefined;
+  account.lastRefreshError = undefined;
+}
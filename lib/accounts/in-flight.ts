@@ -0,0 +1,132 @@
+/** Releases an in-flight slot; calling it more than once is harmless. */
+export type InFlightRelease = () => void;
+
+interface Waiter {
+  grant: () => void;
+}
+
+/**
+ * Counts requests in flight per account and caps them at `limit`
+ * (0 = unbounded). Waiters are served in FIFO order as slots free up.
+ */
+export class InFlightLimiter {
+  private readonly active = new Map<string, number>();
+  private readonly waiters = new Map<string, Waiter[]>();
+
+  constructor(readonly limit: number) {}
+
+  getActive(id: string): number {
+    return this.active.get(id) ?? 0;
+  }
+
+  getQueued(id: string): number {
+    return this.waiters.get(id)?.length ?? 0;
+  }
+
+  hasCapacity(id: string): boolean {
+    return this.limit <= 0 || this.getActive(id) < this.limit;
+  }
+
+  tryAcquire(id: string): InFlightRelease | null {
+    if (!this.hasCapacity(id) || this.getQueued(id) > 0) return null;
+    this.active.set(id, this.getActive(id) + 1);
+    return this.createRelease(id);
+  }
+
+  /** Wait for a slot; rejects with the signal's reason when aborted while queued. */
+  acquire(id: string, signal?: AbortSignal | null): Promise<InFlightRelease> {
+    const release = this.tryAcquire(id);
+    if (release) return Promise.resolve(release);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queue = this.waiters.get(id) ?? [];
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index >= 0) queue.splice(index, 1);
+        if (queue.length === 0) this.waiters.delete(id);
+        reject(signal?.reason);
+      };
+      // The releasing request hands its slot over, so the count stays put.
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(this.createRelease(id));
+        },
+      };
+
+      queue.push(waiter);
+      this.waiters.set(id, queue);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private createRelease(id: string): InFlightRelease {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const queue = this.waiters.get(id);
+      const next = queue?.shift();
+      if (queue && queue.length === 0) this.waiters.delete(id);
+      if (next) {
+        next.grant();
+        return;
+      }
+
+      const remaining = this.getActive(id) - 1;
+      if (remaining > 0) {
+        this.active.set(id, remaining);
+      } else {
+        this.active.delete(id);
+      }
+    };
+  }
+}
+
+/**
+ * Release `release` once the response body has been read to the end, failed
+ * or been cancelled. Responses without a body release immediately.
+ */
+export function releaseWhenBodyDone(
+  response: Response,
+  release: InFlightRelease,
+): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      release();
+      await reader.cancel(reason).catch(() => {});
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
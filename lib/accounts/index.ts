@@ -1,7 +1,25 @@
-export { AccountManager } from "./manager.js";
+export { AccountManager, getAccountLabel } from "./manager.js";
+export { getAccountHealth } from "./health.js";
+export type { AccountHealth } from "./health.js";
+export { InFlightLimiter, releaseWhenBodyDone } from "./in-flight.js";
+export type { InFlightRelease } from "./in-flight.js";
+export {
+  AesGcmCredentialStore,
+  CredentialStoreError,
+  PlaintextCredentialStore,
+  CREDENTIALS_KEYFILE_ENV,
+  CREDENTIALS_PASSPHRASE_ENV,
+  createCredentialStoreFromEnv,
+  createCredentialsKeyFile,
+  retireCredentialsKeyFile,
+} from "./credential-store.js";
 export type {
+  CredentialStore,
   ManagedAccount,
   AccountsStorage,
   MultiAccountConfig,
+  DrainThresholds,
+  FailureBackoff,
+  UsageWindowName,
 } from "./types.js";
 export { DEFAULT_MULTI_ACCOUNT_CONFIG } from "./types.js";
@@ -1,18 +1,48 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, statSync, watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
 import { homedir } from "node:os";
-import { join, dirname } from "node:path";
+import { basename, join, dirname } from "node:path";
 import {
   decodeJWT,
   extractAccountIdFromClaims,
   refreshAccessToken,
 } from "../auth/auth.js";
 import type {
+  CredentialStore,
   ManagedAccount,
   AccountsStorage,
   MultiAccountConfig,
+  DrainThresholds,
+  UsageWindowName,
 } from "./types.js";
 import { DEFAULT_MULTI_ACCOUNT_CONFIG } from "./types.js";
-import { ensureSecureDir, ensureSecureFile, writeJsonSecure } from "../secure-file.js";
+import {
+  ensureSecureDir,
+  ensureSecureFile,
+  readJsonFile,
+  tryAcquireFileLock,
+  withFileLock,
+  writeJsonSecure,
+} from "../secure-file.js";
+import { codexStatus } from "../codex-status.js";
+import type { CodexRateLimitSnapshot } from "../codex-status.js";
+import { getHeadroomScore } from "./headroom.js";
+import { mergeAccountInto, mergeAccounts, serializeAccount } from "./merge.js";
+import {
+  ACCOUNTS_STORAGE_VERSION,
+  createAccountId,
+  getAccountsStorage,
+} from "./storage.js";
+import { StorageMigrationError, migrateStorage } from "../storage-migrations.js";
+import { PlaintextCredentialStore } from "./credential-store.js";
+import {
+  classifyFailure,
+  clearAccountFailures,
+  getAccountHealth,
+  getFailureCooldownMs,
+  isAccountSelectable,
+} from "./health.js";
+import { InFlightLimiter, type InFlightRelease } from "./in-flight.js";
 
 const ACCOUNTS_FILE = join(
   homedir(),
@@ -28,50 +58,299 @@ const OPENCODE_AUTH_FILE = join(
   "auth.json",
 );
 
+/** A refresh holding its lease longer than this is assumed to have crashed. */
+const REFRESH_LEASE_STALE_MS = 30_000;
+const REFRESH_LEASE_POLL_MS = 100;
+
+/** Coalesces the burst of events an atomic write (temp file + rename) produces. */
+const ACCOUNTS_WATCH_DEBOUNCE_MS = 250;
+/** Fallback for filesystems where fs.watch misses events (network mounts, some containers). */
+const ACCOUNTS_POLL_INTERVAL_MS = 5_000;
+
+function getFileStamp(path: string): string | null {
+  try {
+    const stats = statSync(path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Human-readable account name for toasts and tool output. */
+export function getAccountLabel(account: ManagedAccount): string {
+  return account.label || account.email || `Account ${account.index + 1}`;
+}
+
 export class AccountManager {
   private accounts: ManagedAccount[] = [];
   private activeIndex = 0;
   private roundRobinCursor = 0;
   private strategyInitialized = false;
   private config: MultiAccountConfig;
+  /** Account IDs on disk at the last load/save, to detect removals by other processes */
+  private knownDiskIds = new Set<string>();
+  /** Account IDs removed by this process that must not be resurrected from disk */
+  private removedIds = new Set<string>();
+  private watcher: FSWatcher | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  /** mtime + size of the accounts file when it was last read */
+  private lastDiskStamp: string | null = null;
+  /** Why the accounts file could not be loaded; saving is refused until it is fixed */
+  private storageError: StorageMigrationError | null = null;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private credentialStore: CredentialStore;
+  private readonly inFlight: InFlightLimiter;
 
   constructor(config: Partial<MultiAccountConfig> = {}) {
     this.config = { ...DEFAULT_MULTI_ACCOUNT_CONFIG, ...config };
+    this.credentialStore =
+      this.config.credentialStore ?? new PlaintextCredentialStore();
+    this.inFlight = new InFlightLimiter(this.config.maxInFlightPerAccount);
+  }
+
+  getCredentialStore(): CredentialStore {
+    return this.credentialStore;
+  }
+
+  /**
+   * Switch credential storage (e.g. plaintext -> encrypted) and rewrite every
+   * account in the new form right away.
+   */
+  async setCredentialStore(store: CredentialStore): Promise<void> {
+    this.credentialStore = store;
+    await this.saveToDisk();
+  }
+
+  getDrainThresholds(): DrainThresholds {
+    return this.config.drainThresholds;
   }
 
   async loadFromDisk(): Promise<void> {
     if (!existsSync(ACCOUNTS_FILE)) return;
     ensureSecureFile(ACCOUNTS_FILE);
+    this.lastDiskStamp = getFileStamp(ACCOUNTS_FILE);
+    this.storageError = null;
 
+    let migrated = false;
     try {
-      const data = JSON.parse(
-        readFileSync(ACCOUNTS_FILE, "utf-8"),
-      ) as AccountsStorage;
-      if (data.version === 1 && Array.isArray(data.accounts)) {
-        this.accounts = data.accounts;
-        this.activeIndex = data.activeAccountIndex || 0;
-        this.roundRobinCursor = data.roundRobinCursor ?? this.activeIndex;
-        this.strategyInitialized = false;
+      const result = migrateStorage(
+        ACCOUNTS_FILE,
+        JSON.parse(readFileSync(ACCOUNTS_FILE, "utf-8")),
+        getAccountsStorage(),
+      );
+      migrated = result.migrated;
+      const storage = result.data as unknown as AccountsStorage;
+      if (!Array.isArray(storage.accounts)) {
+        throw new StorageMigrationError("Accounts file has no account list", ACCOUNTS_FILE);
       }
-    } catch {
+
+      this.accounts = storage.accounts.map((account) =>
+        serializeAccount(this.credentialStore.open(account)),
+      );
+      this.activeIndex = storage.activeAccountIndex || 0;
+      this.roundRobinCursor = storage.roundRobinCursor ?? this.activeIndex;
+      this.strategyInitialized = false;
+      this.knownDiskIds = new Set(this.accounts.map((account) => account.id));
+    } catch (error) {
       this.accounts = [];
       this.activeIndex = 0;
       this.roundRobinCursor = 0;
       this.strategyInitialized = false;
+      this.storageError =
+        error instanceof StorageMigrationError
+          ? error
+          : new StorageMigrationError(
+              `Could not read accounts file: ${error instanceof Error ? error.message : String(error)}`,
+              ACCOUNTS_FILE,
+            );
+      console.error(this.storageError.message);
+      return;
+    }
+
+    // The migrated accounts stay loaded even if writing them back fails;
+    // the next successful save persists the new format.
+    if (migrated) {
+      try {
+        await this.saveToDisk();
+      } catch (error) {
+        console.error(
+          `[openai-multi-auth] Could not save migrated accounts file: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
     }
   }
 
+  /** Load/migration failure of the accounts file, if any. */
+  getStorageError(): StorageMigrationError | null {
+    return this.storageError;
+  }
+
+  /**
+   * Persist accounts with a locked read-merge-write, so a token refreshed by
+   * another OpenCode process is adopted instead of clobbered.
+   */
   async saveToDisk(): Promise<void> {
     const dir = dirname(ACCOUNTS_FILE);
     ensureSecureDir(dir);
 
-    const data: AccountsStorage = {
-      version: 1,
-      accounts: this.accounts,
-      activeAccountIndex: this.activeIndex,
-      roundRobinCursor: this.roundRobinCursor,
+    await withFileLock(ACCOUNTS_FILE, () => {
+      const current = readJsonFile(ACCOUNTS_FILE);
+      if (current === null && existsSync(ACCOUNTS_FILE)) {
+        throw new StorageMigrationError(
+          "Accounts file is not valid JSON; fix it or restore a backup before saving",
+          ACCOUNTS_FILE,
+        );
+      }
+      if (current !== null) {
+        this.mergeWithDisk(this.migrateDiskAccounts(current));
+      }
+
+      const storage: AccountsStorage = {
+        version: ACCOUNTS_STORAGE_VERSION,
+        accounts: this.accounts.map((account) =>
+          this.credentialStore.seal(serializeAccount(account)),
+        ),
+        activeAccountIndex: this.activeIndex,
+        roundRobinCursor: this.roundRobinCursor,
+      };
+      writeJsonSecure(ACCOUNTS_FILE, storage);
+      // Taken under the lock: this process's own write is not a change to reload
+      this.lastDiskStamp = getFileStamp(ACCOUNTS_FILE);
+    });
+    this.knownDiskIds = new Set(this.accounts.map((account) => account.id));
+    this.removedIds.clear();
+    this.storageError = null;
+  }
+
+  /**
+   * Bring accounts-file contents written by another process up to the current
+   * schema. Accounts written back by a pre-ID build are matched by refresh token
+   * so they keep the IDs this process already uses.
+   */
+  private migrateDiskAccounts(current: unknown): ManagedAccount[] {
+    const { data } = migrateStorage(
+      ACCOUNTS_FILE,
+      current,
+      getAccountsStorage(
+        (account) =>
+          this.accounts.find(
+            (a) => a.parts.refreshToken === account.parts?.refreshToken,
+          )?.id,
+      ),
+    );
+    const accounts = (data as unknown as AccountsStorage).accounts;
+    if (!Array.isArray(accounts)) {
+      throw new StorageMigrationError("Accounts file has no account list", ACCOUNTS_FILE);
+    }
+    return accounts.map((account) => this.credentialStore.open(account));
+  }
+
+  private mergeWithDisk(diskAccounts: ManagedAccount[]): void {
+    const active = this.accounts[this.activeIndex];
+    const cursor = this.accounts[this.roundRobinCursor];
+    const previousIds = this.accounts.map((account) => account.id).join(",");
+
+    this.accounts = mergeAccounts(this.accounts, diskAccounts, {
+      knownDiskIds: this.knownDiskIds,
+      removedIds: this.removedIds,
+    });
+    this.accounts.forEach((account, index) => (account.index = index));
+
+    this.activeIndex = this.normalizeIndex(
+      active ? this.accounts.indexOf(active) : this.activeIndex,
+    );
+    this.roundRobinCursor = this.normalizeIndex(
+      cursor ? this.accounts.indexOf(cursor) : this.roundRobinCursor,
+    );
+    this.knownDiskIds = new Set(diskAccounts.map((account) => account.id));
+
+    if (this.accounts.map((account) => account.id).join(",") !== previousIds) {
+      this.strategyInitialized = false;
+    }
+  }
+
+  /**
+   * Merge in changes other processes made to the accounts file (added,
+   * removed or refreshed accounts). In-memory account objects are kept, so
+   * in-flight refreshes and rate-limit state survive the reload.
+   * @returns true when the file had changed since it was last read
+   */
+  async reloadFromDisk(): Promise<boolean> {
+    const stamp = getFileStamp(ACCOUNTS_FILE);
+    if (!stamp || stamp === this.lastDiskStamp) return false;
+
+    let diskAccounts: ManagedAccount[];
+    try {
+      diskAccounts = this.migrateDiskAccounts(readJsonFile(ACCOUNTS_FILE));
+    } catch (error) {
+      // Unreadable or newer-version file: keep the in-memory state untouched.
+      if (this.config.debug) {
+        console.error(`[openai-multi-auth] Skipping accounts reload: ${String(error)}`);
+      }
+      return false;
+    }
+
+    this.lastDiskStamp = stamp;
+    this.mergeWithDisk(diskAccounts);
+    this.storageError = null;
+
+    if (this.config.debug) {
+      console.log(
+        `[openai-multi-auth] Reloaded accounts file (${this.accounts.length} accounts)`,
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Watch the accounts file and hot-reload it when another process changes
+   * it. Timers are unref'd so watching never keeps the process alive.
+   */
+  startWatching(): void {
+    if (this.pollTimer) return;
+
+    const dir = dirname(ACCOUNTS_FILE);
+    const fileName = basename(ACCOUNTS_FILE);
+    ensureSecureDir(dir);
+
+    const scheduleReload = () => {
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        this.reloadFromDisk().catch(() => {});
+      }, ACCOUNTS_WATCH_DEBOUNCE_MS);
+      this.reloadTimer.unref?.();
     };
-    writeJsonSecure(ACCOUNTS_FILE, data);
+
+    try {
+      this.watcher = watch(dir, (_event, changed) => {
+        if (changed && changed.toString() !== fileName) return;
+        scheduleReload();
+      });
+      this.watcher.on("error", () => {
+        // Fall back to polling only.
+        this.watcher?.close();
+        this.watcher = null;
+      });
+      this.watcher.unref?.();
+    } catch {
+      this.watcher = null;
+    }
+
+    this.pollTimer = setInterval(() => {
+      if (getFileStamp(ACCOUNTS_FILE) !== this.lastDiskStamp) scheduleReload();
+    }, ACCOUNTS_POLL_INTERVAL_MS);
+    this.pollTimer.unref?.();
+  }
+
+  stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
   }
 
   async importFromOpenCodeAuth(): Promise<void> {
@@ -146,7 +425,7 @@ export class AccountManager {
       if (accountId) existing.accountId = accountId;
       if (planType) existing.planType = planType;
       if (extractedEmail) existing.email = extractedEmail;
-      existing.consecutiveFailures = 0;
+      clearAccountFailures(existing);
       await this.saveToDisk();
 
       if (!this.config.quietMode) {
@@ -158,12 +437,19 @@ export class AccountManager {
       return existing;
     }
 
+    let id = createAccountId(userId, accountId);
+    if (this.getAccountById(id)) {
+      id = createAccountId();
+    }
+
     const account: ManagedAccount = {
+      id,
       index: this.accounts.length,
       email: extractedEmail,
       userId,
       planType,
       accountId,
+      enabled: true,
       addedAt: Date.now(),
       parts: { refreshToken },
       access: accessToken,
@@ -193,6 +479,55 @@ export class AccountManager {
     return this.accounts.length;
   }
 
+  getAccountById(id: string): ManagedAccount | null {
+    return this.accounts.find((account) => account.id === id) || null;
+  }
+
+  /**
+   * Resolve a user-supplied account reference: 1-based position as shown by
+   * codex-status, stable ID, or email (case-insensitive).
+   */
+  findAccount(ref: string): ManagedAccount | null {
+    const value = ref.trim();
+    if (!value) return null;
+
+    if (/^\d+$/.test(value)) {
+      const position = Number(value);
+      return this.accounts[position - 1] || null;
+    }
+
+    const lower = value.toLowerCase();
+    return (
+      this.getAccountById(value) ||
+      this.accounts.find((account) => account.email?.toLowerCase() === lower) ||
+      null
+    );
+  }
+
+  isAccountEnabled(account: ManagedAccount): boolean {
+    return account.enabled !== false;
+  }
+
+  async setAccountEnabled(
+    account: ManagedAccount,
+    enabled: boolean,
+  ): Promise<void> {
+    account.enabled = enabled;
+    account.updatedAt = Date.now();
+    // Re-running strategy initialization would apply the PID offset again;
+    // only move off the active account when that is the one disabled.
+    if (!enabled && account.index === this.activeIndex) {
+      this.activeIndex = this.findNextEnabledIndex(account.index);
+    }
+    await this.saveToDisk();
+
+    if (!this.config.quietMode) {
+      console.log(
+        `[openai-multi-auth] ${enabled ? "Enabled" : "Disabled"} account ${account.email || account.index}`,
+      );
+    }
+  }
+
   async getNextAvailableAccount(
     model?: string,
   ): Promise<ManagedAccount | null> {
@@ -229,16 +564,30 @@ export class AccountManager {
     await this.initializeStrategyState();
 
     const now = Date.now();
+
+    if (this.config.accountSelectionStrategy === "headroom") {
+      const account = await this.selectByHeadroom(model, now);
+      if (account) {
+        this.activeIndex = account.index;
+        account.lastUsed = now;
+        return account;
+      }
+    }
+
     const startIndex = useRoundRobinCursor
       ? this.roundRobinCursor
       : this.activeIndex;
-    let attempts = 0;
 
-    while (attempts < this.accounts.length) {
-      const index = (startIndex + attempts) % this.accounts.length;
-      const account = this.accounts[index];
+    // Prefer accounts below their drain thresholds; draining accounts are
+    // only picked when every available account is draining.
+    for (const allowDraining of [false, true]) {
+      for (let attempts = 0; attempts < this.accounts.length; attempts++) {
+        const index = (startIndex + attempts) % this.accounts.length;
+        const account = this.accounts[index];
+
+        if (!this.isAccountAvailable(account, model, now)) continue;
+        if (!allowDraining && this.isAccountDraining(account, now)) continue;
 
-      if (this.isAccountAvailable(account, model, now)) {
         this.activeIndex = index;
         if (useRoundRobinCursor) {
           this.roundRobinCursor = (index + 1) % this.accounts.length;
@@ -246,8 +595,6 @@ export class AccountManager {
         account.lastUsed = now;
         return account;
       }
-
-      attempts++;
     }
 
     const fallback = this.getLeastRateLimitedAccount(model);
@@ -261,12 +608,69 @@ export class AccountManager {
     return fallback;
   }
 
+  /**
+   * Pick the available account with the most remaining 5h/weekly quota.
+   * Returns null when no available account has a fresh usage snapshot, so the
+   * caller falls back to sticky selection. Accounts without fresh data are
+   * scored optimistically: using them is what produces a snapshot.
+   */
+  private async selectByHeadroom(
+    model: string | undefined,
+    now: number,
+  ): Promise<ManagedAccount | null> {
+    const candidates: { account: ManagedAccount; score: number | null }[] = [];
+
+    for (let offset = 0; offset < this.accounts.length; offset++) {
+      const account = this.accounts[(this.activeIndex + offset) % this.accounts.length];
+      if (!this.isAccountAvailable(account, model, now)) continue;
+
+      const snapshot = await codexStatus.getSnapshot(account);
+      const score =
+        snapshot && !snapshot.isStale ? getHeadroomScore(snapshot, now) : null;
+      candidates.push({ account, score });
+    }
+
+    if (!candidates.some((candidate) => candidate.score !== null)) {
+      return null;
+    }
+
+    const undrained = candidates.filter(
+      (candidate) => !this.isAccountDraining(candidate.account, now),
+    );
+    const pool = undrained.length > 0 ? undrained : candidates;
+
+    let best: { account: ManagedAccount; score: number } | null = null;
+    for (const candidate of pool) {
+      const score = candidate.score ?? 100;
+      if (!best || score > best.score) {
+        best = { account: candidate.account, score };
+      }
+    }
+
+    if (best && this.config.debug) {
+      console.log(
+        `[openai-multi-auth] headroom strategy picked ${best.account.email || `account-${best.account.index}`} (${best.score.toFixed(1)}% headroom)`,
+      );
+    }
+
+    return best?.account ?? null;
+  }
+
   private normalizeIndex(index: number): number {
     if (this.accounts.length === 0) return 0;
     if (index < 0 || index >= this.accounts.length) return 0;
     return index;
   }
 
+  /** Index of the first enabled account after `index`, wrapping; `index` when there is none */
+  private findNextEnabledIndex(index: number): number {
+    for (let step = 1; step < this.accounts.length; step++) {
+      const candidate = (index + step) % this.accounts.length;
+      if (this.isAccountEnabled(this.accounts[candidate])) return candidate;
+    }
+    return index;
+  }
+
   private async initializeStrategyState(): Promise<void> {
     if (this.strategyInitialized) return;
 
@@ -295,7 +699,8 @@ export class AccountManager {
     model: string | undefined,
     now: number,
   ): boolean {
-    if (account.consecutiveFailures >= 3) return false;
+    if (!this.isAccountEnabled(account)) return false;
+    if (!isAccountSelectable(account, now)) return false;
 
     if (account.globalRateLimitReset && account.globalRateLimitReset > now) {
       return false;
@@ -311,6 +716,51 @@ export class AccountManager {
     return true;
   }
 
+  /**
+   * True while any usage window of the account is past its drain threshold
+   * and has not reset yet.
+   */
+  isAccountDraining(account: ManagedAccount, now = Date.now()): boolean {
+    if (!account.drainingWindows) return false;
+    return Object.values(account.drainingWindows).some(
+      (resetAt) => resetAt === 0 || (resetAt !== undefined && resetAt > now),
+    );
+  }
+
+  /**
+   * Mark or clear the draining state of each usage window from the latest
+   * codex-status snapshot. Returns true when the account started draining.
+   */
+  updateDrainState(
+    account: ManagedAccount,
+    snapshot: Pick<CodexRateLimitSnapshot, "primary" | "secondary">,
+  ): boolean {
+    const now = Date.now();
+    const wasDraining = this.isAccountDraining(account, now);
+    const draining: Partial<Record<UsageWindowName, number>> = {};
+
+    for (const window of ["primary", "secondary"] as const) {
+      const usage = snapshot[window];
+      const threshold = this.config.drainThresholds[window];
+      if (!usage || threshold >= 100) continue;
+      if (usage.usedPercent >= threshold) {
+        draining[window] = usage.resetAt > now ? usage.resetAt : 0;
+      }
+    }
+
+    account.drainingWindows =
+      Object.keys(draining).length > 0 ? draining : undefined;
+
+    const isDraining = this.isAccountDraining(account, now);
+    if (isDraining && !wasDraining && this.config.debug) {
+      const identifier = account.email || `account-${account.index}`;
+      console.log(
+        `[openai-multi-auth] ${identifier} is draining (${Object.keys(draining).join(", ")} window past threshold)`,
+      );
+    }
+    return isDraining && !wasDraining;
+  }
+
   private getLeastRateLimitedAccount(model?: string): ManagedAccount | null {
     if (this.accounts.length === 0) return null;
 
@@ -319,7 +769,8 @@ export class AccountManager {
     let earliestReset = Infinity;
 
     for (const account of this.accounts) {
-      if (account.consecutiveFailures >= 3) continue;
+      if (!this.isAccountEnabled(account)) continue;
+      if (!isAccountSelectable(account, now)) continue;
 
       let resetTime = account.globalRateLimitReset || 0;
       if (model && this.config.perModelRateLimits) {
@@ -336,6 +787,89 @@ export class AccountManager {
     return bestAccount;
   }
 
+  /**
+   * Earliest time at which an enabled account becomes usable for `model`
+   * again: its rate-limit reset or, for transient failures, the end of its
+   * cool-down. Returns null when an account is usable right now or when none
+   * will recover without user action (disabled or permanently failed).
+   */
+  getEarliestAvailableTime(model?: string, now = Date.now()): number | null {
+    let earliest = Infinity;
+
+    for (const account of this.accounts) {
+      if (!this.isAccountEnabled(account)) continue;
+      if (getAccountHealth(account, now) === "failed") continue;
+      if (this.isAccountAvailable(account, model, now)) return null;
+
+      let availableAt = Math.max(
+        account.globalRateLimitReset || 0,
+        account.cooldownUntil || 0,
+      );
+      if (model && this.config.perModelRateLimits) {
+        availableAt = Math.max(availableAt, account.rateLimitResets[model] || 0);
+      }
+      earliest = Math.min(earliest, availableAt);
+    }
+
+    return Number.isFinite(earliest) ? earliest : null;
+  }
+
+  getInFlightLimit(): number {
+    return this.inFlight.limit;
+  }
+
+  getInFlightOverflow(): MultiAccountConfig["inFlightOverflow"] {
+    return this.config.inFlightOverflow;
+  }
+
+  /** Requests currently sent with this account, and requests queued for it. */
+  getInFlightCount(account: ManagedAccount): { active: number; queued: number } {
+    return {
+      active: this.inFlight.getActive(account.id),
+      queued: this.inFlight.getQueued(account.id),
+    };
+  }
+
+  /** Take an in-flight slot if the account is below its limit. */
+  tryAcquireInFlight(account: ManagedAccount): InFlightRelease | null {
+    return this.inFlight.tryAcquire(account.id);
+  }
+
+  /** Wait for an in-flight slot on this account. */
+  acquireInFlight(
+    account: ManagedAccount,
+    signal?: AbortSignal | null,
+  ): Promise<InFlightRelease> {
+    return this.inFlight.acquire(account.id, signal);
+  }
+
+  /**
+   * Next usable account that still has a free in-flight slot, for spilling
+   * requests over from a saturated one. Picked in the same order as
+   * `getNextAvailableAccountExcluding`, but the active account stays put:
+   * a spill covers one request, not the ones after it.
+   */
+  async getNextAccountWithCapacity(
+    excludeIds: Set<string>,
+    model?: string,
+  ): Promise<ManagedAccount | null> {
+    const now = Date.now();
+    for (const allowDraining of [false, true]) {
+      for (const account of this.accounts) {
+        if (excludeIds.has(account.id)) continue;
+        if (!this.inFlight.hasCapacity(account.id)) continue;
+        if (!allowDraining && this.isAccountDraining(account, now)) continue;
+        if (this.isAccountAvailable(account, model, now)) return account;
+      }
+    }
+    return null;
+  }
+
+  /** Whether a request for `model` can be sent with this account right now. */
+  isAccountUsable(account: ManagedAccount, model?: string): boolean {
+    return this.isAccountAvailable(account, model, Date.now());
+  }
+
   markRateLimited(
     account: ManagedAccount,
     retryAfterMs: number,
@@ -357,35 +891,170 @@ export class AccountManager {
     }
   }
 
-  markRefreshFailed(account: ManagedAccount, error: string): void {
+  /**
+   * Record a failed refresh or rejected request. Transient failures put the
+   * account into an exponentially growing cool-down after which it is probed
+   * again; permanent ones (revoked or reused refresh tokens) keep it out until
+   * it is re-authenticated or reset.
+   */
+  async markRefreshFailed(
+    account: ManagedAccount,
+    error: string,
+    kind: "transient" | "permanent" = classifyFailure(error),
+  ): Promise<void> {
+    const now = Date.now();
     account.consecutiveFailures++;
     account.lastRefreshError = error;
+    account.failureKind = kind;
+    account.cooldownUntil =
+      kind === "transient"
+        ? now + getFailureCooldownMs(account.consecutiveFailures, this.config.failureBackoff)
+        : undefined;
     account.isRefreshing = false;
 
+    if (this.config.debug) {
+      const until = account.cooldownUntil
+        ? ` until ${new Date(account.cooldownUntil).toISOString()}`
+        : "";
+      console.log(
+        `[openai-multi-auth] ${getAccountLabel(account)} ${kind} failure #${account.consecutiveFailures}${until}: ${error}`,
+      );
+    }
+
     if (this.config.removeOnInvalidGrant && error.includes("invalid_grant")) {
-      this.removeAccount(account);
+      try {
+        await this.removeAccount(account);
+      } catch (saveError) {
+        console.error(
+          `[openai-multi-auth] Could not remove ${getAccountLabel(account)}: ${saveError instanceof Error ? saveError.message : String(saveError)}`,
+        );
+      }
     }
   }
 
-  removeAccount(account: ManagedAccount): void {
-    const index = this.accounts.findIndex((a) => a.index === account.index);
-    if (index >= 0) {
-      this.accounts.splice(index, 1);
-      this.accounts.forEach((a, i) => (a.index = i));
+  /** Reinstate an account after a request on it succeeded (closes a half-open probe). */
+  recordSuccess(account: ManagedAccount): void {
+    if (account.consecutiveFailures === 0 && !account.failureKind) return;
+    clearAccountFailures(account);
+    this.saveToDisk().catch(() => {});
+  }
 
-      if (this.activeIndex >= this.accounts.length) {
-        this.activeIndex = Math.max(0, this.accounts.length - 1);
+  /**
+   * Periodically probe accounts whose cool-down has elapsed with a forced
+   * token refresh, so they are reinstated even when no request picks them.
+   */
+  startHealthProbes(): void {
+    if (this.probeTimer) return;
+    this.probeTimer = setInterval(() => {
+      const now = Date.now();
+      for (const account of this.accounts) {
+        if (!this.isAccountEnabled(account)) continue;
+        if (getAccountHealth(account, now) !== "probing") continue;
+        if (account.isRefreshing) continue;
+        this.probeAccount(account).catch(() => {});
       }
-      this.roundRobinCursor = this.activeIndex;
-      this.strategyInitialized = false;
+    }, this.config.failureBackoff.probeIntervalMs);
+    this.probeTimer.unref?.();
+  }
 
-      this.saveToDisk();
+  stopHealthProbes(): void {
+    if (this.probeTimer) clearInterval(this.probeTimer);
+    this.probeTimer = null;
+  }
 
-      if (!this.config.quietMode) {
-        console.log(
-          `[openai-multi-auth] Removed account ${account.email || account.index}`,
-        );
+  /**
+   * Half-open probe: force a token refresh. Success clears the failure state;
+   * another failure extends the cool-down.
+   */
+  async probeAccount(account: ManagedAccount): Promise<boolean> {
+    if (account.isRefreshing && account.refreshPromise) {
+      return account.refreshPromise;
+    }
+    return this.refreshTokens(account, true);
+  }
+
+  async setAccountLabel(
+    account: ManagedAccount,
+    label: string | undefined,
+  ): Promise<void> {
+    const trimmed = label?.trim();
+    account.label = trimmed ? trimmed : undefined;
+    account.updatedAt = Date.now();
+    await this.saveToDisk();
+  }
+
+  /**
+   * Move an account to a new 1-based position in the rotation order.
+   * The active account and round-robin cursor keep pointing at the same accounts.
+   */
+  async moveAccount(account: ManagedAccount, position: number): Promise<void> {
+    const from = this.accounts.findIndex((a) => a.id === account.id);
+    if (from < 0) return;
+
+    await this.initializeStrategyState();
+    const active = this.accounts[this.activeIndex];
+    const cursor = this.accounts[this.roundRobinCursor];
+
+    const to = Math.max(0, Math.min(this.accounts.length - 1, Math.floor(position) - 1));
+    this.accounts.splice(from, 1);
+    this.accounts.splice(to, 0, account);
+    this.accounts.forEach((a, i) => (a.index = i));
+
+    if (active) this.activeIndex = active.index;
+    if (cursor) this.roundRobinCursor = cursor.index;
+
+    await this.saveToDisk();
+  }
+
+  async resetAccountFailures(account: ManagedAccount): Promise<void> {
+    clearAccountFailures(account);
+    await this.saveToDisk();
+  }
+
+  async setActiveAccount(account: ManagedAccount): Promise<void> {
+    await this.initializeStrategyState();
+    this.activeIndex = account.index;
+    this.roundRobinCursor = account.index;
+    await this.saveToDisk();
+  }
+
+  /**
+   * Remove an account and persist the removal. If the accounts file cannot be
+   * written, the account is put back and the error is rethrown.
+   */
+  async removeAccount(account: ManagedAccount): Promise<void> {
+    const index = this.accounts.findIndex((a) => a.id === account.id);
+    if (index < 0) return;
+
+    const previousActive = this.activeIndex;
+    const previousCursor = this.roundRobinCursor;
+    this.accounts.splice(index, 1);
+    this.removedIds.add(account.id);
+    this.accounts.forEach((a, i) => (a.index = i));
+
+    if (this.activeIndex >= this.accounts.length) {
+      this.activeIndex = Math.max(0, this.accounts.length - 1);
+    }
+    this.roundRobinCursor = this.activeIndex;
+    this.strategyInitialized = false;
+
+    try {
+      await this.saveToDisk();
+    } catch (error) {
+      this.removedIds.delete(account.id);
+      if (!this.accounts.some((a) => a.id === account.id)) {
+        this.accounts.splice(Math.min(index, this.accounts.length), 0, account);
+        this.accounts.forEach((a, i) => (a.index = i));
       }
+      this.activeIndex = Math.min(previousActive, this.accounts.length - 1);
+      this.roundRobinCursor = Math.min(previousCursor, this.accounts.length - 1);
+      throw error;
+    }
+
+    if (!this.config.quietMode) {
+      console.log(
+        `[openai-multi-auth] Removed account ${account.email || account.index}`,
+      );
     }
   }
 
@@ -398,9 +1067,8 @@ export class AccountManager {
     account.access = accessToken;
     account.parts.refreshToken = refreshToken;
     account.expires = expires;
-    account.consecutiveFailures = 0;
+    clearAccountFailures(account);
     account.isRefreshing = false;
-    account.lastRefreshError = undefined;
 
     const decoded = decodeJWT(accessToken);
     if (decoded) {
@@ -419,11 +1087,63 @@ export class AccountManager {
     await this.saveToDisk();
   }
 
+  private needsRefresh(account: ManagedAccount): boolean {
+    return (
+      !!account.expires &&
+      account.expires <= Date.now() + this.config.proactiveRefreshThresholdMs
+    );
+  }
+
+  /**
+   * Pull this account's credentials from the accounts file, in case another
+   * process refreshed them. Only ever moves to tokens with a later expiry.
+   */
+  private syncTokensFromDisk(account: ManagedAccount): void {
+    const data = readJsonFile(ACCOUNTS_FILE) as Partial<AccountsStorage> | null;
+    if (data?.version !== ACCOUNTS_STORAGE_VERSION || !Array.isArray(data.accounts)) return;
+    const stored = data.accounts.find((a) => a.id === account.id);
+    if (!stored || (stored.expires ?? 0) <= (account.expires ?? 0)) return;
+    try {
+      const diskAccount = this.credentialStore.open(stored);
+      if (!diskAccount.parts.refreshToken) return;
+      mergeAccountInto(account, diskAccount);
+    } catch {
+      // Unreadable credentials; fall back to refreshing ourselves.
+    }
+  }
+
+  /**
+   * Take the cross-process refresh lease for an account. While another
+   * process holds it, wait for that process to publish new tokens instead of
+   * spending the (single-use) refresh token a second time.
+   * @param isSatisfied - Whether tokens now on disk make our own refresh unnecessary
+   * @returns Release function, or null when fresh tokens arrived from disk
+   */
+  private async acquireRefreshLease(
+    account: ManagedAccount,
+    isSatisfied: () => boolean,
+  ): Promise<(() => void) | null> {
+    const leasePath = `${ACCOUNTS_FILE}.refresh-${account.id}`;
+    for (;;) {
+      const release = tryAcquireFileLock(leasePath, REFRESH_LEASE_STALE_MS);
+      if (release) {
+        // The previous holder may have finished just before we got the lease.
+        this.syncTokensFromDisk(account);
+        if (isSatisfied()) {
+          release();
+          return null;
+        }
+        return release;
+      }
+
+      await new Promise<void>((r) => setTimeout(r, REFRESH_LEASE_POLL_MS));
+      this.syncTokensFromDisk(account);
+      if (isSatisfied()) return null;
+    }
+  }
+
   async ensureValidToken(account: ManagedAccount): Promise<boolean> {
-    if (
-      !account.expires ||
-      account.expires > Date.now() + this.config.proactiveRefreshThresholdMs
-    ) {
+    if (!this.needsRefresh(account)) {
       return true;
     }
 
@@ -431,36 +1151,78 @@ export class AccountManager {
       return account.refreshPromise;
     }
 
+    return this.refreshTokens(account, false);
+  }
+
+  /**
+   * @param force - Refresh even if the access token is not near expiry (health probes);
+   *   newer tokens published by another process count as success either way
+   */
+  private refreshTokens(account: ManagedAccount, force: boolean): Promise<boolean> {
+    const initialExpires = account.expires ?? 0;
+    const isSatisfied = force
+      ? () => (account.expires ?? 0) > initialExpires
+      : () => !this.needsRefresh(account);
+
     account.isRefreshing = true;
     account.refreshPromise = (async () => {
+      let releaseLease: (() => void) | null = null;
       try {
-        const result = await refreshAccessToken(account.parts.refreshToken);
+        releaseLease = await this.acquireRefreshLease(account, isSatisfied);
+        if (!releaseLease) {
+          clearAccountFailures(account);
+          return true;
+        }
+
+        const usedRefreshToken = account.parts.refreshToken;
+        const result = await refreshAccessToken(usedRefreshToken);
 
         if (result.type === "success") {
-          await this.updateAccountTokens(
-            account,
-            result.access,
-            result.refresh,
-            result.expires,
-          );
+          try {
+            await this.updateAccountTokens(
+              account,
+              result.access,
+              result.refresh,
+              result.expires,
+            );
+          } catch (error) {
+            // The old refresh token is already invalidated, so the refresh still
+            // counts: the new tokens stay on the account and go out with the next save.
+            console.error(
+              `[openai-multi-auth] Refreshed tokens for ${getAccountLabel(account)} could not be saved: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
           return true;
         }
 
         const errorCode = result.code;
+        if (errorCode === "refresh_token_reused") {
+          // Another process (or an older build without the lease) rotated the
+          // token first; its result is on disk if it saved successfully.
+          this.syncTokensFromDisk(account);
+          if (account.parts.refreshToken !== usedRefreshToken && isSatisfied()) {
+            clearAccountFailures(account);
+            return true;
+          }
+        }
         if (errorCode === "refresh_token_reused" || errorCode === "invalid_grant") {
-          this.markRefreshFailed(account, `Token invalid: ${errorCode}. Please re-authenticate.`);
-          account.consecutiveFailures = 10;
+          await this.markRefreshFailed(
+            account,
+            `Token invalid: ${errorCode}. Please re-authenticate.`,
+            "permanent",
+          );
           if (!this.config.quietMode) {
             console.error(`[openai-multi-auth] Account ${account.email || account.index} needs re-authentication (${errorCode})`);
           }
         } else {
-          this.markRefreshFailed(account, "Token refresh failed");
+          await this.markRefreshFailed(account, "Token refresh failed");
         }
         return false;
       } catch (err) {
-        this.markRefreshFailed(account, String(err));
+        await this.markRefreshFailed(account, String(err));
         return false;
       } finally {
+        releaseLease?.();
         account.isRefreshing = false;
         account.refreshPromise = undefined;
       }
@@ -475,24 +1237,28 @@ export class AccountManager {
   }
 
   /**
-   * Get the next available account excluding the specified account indices.
+   * Get the next available account excluding the specified account IDs.
    * Used for model fallback retry logic - try other accounts before falling back to older model.
    */
   async getNextAvailableAccountExcluding(
-    excludeIndices: Set<number>,
+    excludeIds: Set<string>,
     model?: string,
   ): Promise<ManagedAccount | null> {
     if (this.accounts.length === 0) return null;
 
     const now = Date.now();
 
-    // Try to find an available account that's not in the exclusion list
-    for (const account of this.accounts) {
-      if (excludeIndices.has(account.index)) continue;
-      if (this.isAccountAvailable(account, model, now)) {
-        this.activeIndex = account.index;
-        account.lastUsed = now;
-        return account;
+    // Try to find an available account that's not in the exclusion list,
+    // preferring accounts that are not draining
+    for (const allowDraining of [false, true]) {
+      for (const account of this.accounts) {
+        if (excludeIds.has(account.id)) continue;
+        if (!allowDraining && this.isAccountDraining(account, now)) continue;
+        if (this.isAccountAvailable(account, model, now)) {
+          this.activeIndex = account.index;
+          account.lastUsed = now;
+          return account;
+        }
       }
     }
 
@@ -501,8 +1267,9 @@ export class AccountManager {
     let earliestReset = Infinity;
 
     for (const account of this.accounts) {
-      if (excludeIndices.has(account.index)) continue;
-      if (account.consecutiveFailures >= 3) continue;
+      if (excludeIds.has(account.id)) continue;
+      if (!this.isAccountEnabled(account)) continue;
+      if (!isAccountSelectable(account, now)) continue;
 
       let resetTime = account.globalRateLimitReset || 0;
       if (model && this.config.perModelRateLimits) {
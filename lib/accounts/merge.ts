@@ -0,0 +1,101 @@
+import type { ManagedAccount } from "./types.js";
+
+/** Bookkeeping needed to tell "added elsewhere" apart from "removed here" (and vice versa). */
+export interface AccountMergeState {
+  /** IDs that were present on disk at the last load or save */
+  knownDiskIds: Set<string>;
+  /** IDs this process removed since the last save */
+  removedIds: Set<string>;
+}
+
+/**
+ * Strip process-local runtime state before an account is written to disk.
+ */
+export function serializeAccount(account: ManagedAccount): ManagedAccount {
+  const { isRefreshing: _isRefreshing, refreshPromise: _refreshPromise, ...persisted } =
+    account;
+  return persisted;
+}
+
+/**
+ * Copy fresher on-disk state into an in-memory account, keeping the object
+ * (and its in-flight refresh promise) intact.
+ *
+ * - Credentials follow whichever side has the later `expires`: a token
+ *   refreshed by another process must never be replaced by our stale copy.
+ * - User-managed settings (label, enabled) follow the later `updatedAt`.
+ * - Rate-limit resets keep the latest known reset per model.
+ */
+export function mergeAccountInto(target: ManagedAccount, disk: ManagedAccount): void {
+  if ((disk.expires ?? 0) > (target.expires ?? 0)) {
+    target.access = disk.access;
+    target.parts = { ...disk.parts };
+    target.expires = disk.expires;
+    target.accountId = disk.accountId ?? target.accountId;
+    target.userId = disk.userId ?? target.userId;
+    target.planType = disk.planType ?? target.planType;
+    target.email = disk.email ?? target.email;
+    target.consecutiveFailures = disk.consecutiveFailures ?? 0;
+    target.failureKind = disk.failureKind;
+    target.cooldownUntil = disk.cooldownUntil;
+    target.lastRefreshError = disk.lastRefreshError;
+  }
+
+  if ((disk.updatedAt ?? 0) > (target.updatedAt ?? 0)) {
+    target.label = disk.label;
+    target.enabled = disk.enabled;
+    target.updatedAt = disk.updatedAt;
+  }
+
+  target.lastUsed = Math.max(target.lastUsed ?? 0, disk.lastUsed ?? 0) || undefined;
+
+  const globalReset = Math.max(
+    target.globalRateLimitReset ?? 0,
+    disk.globalRateLimitReset ?? 0,
+  );
+  target.globalRateLimitReset = globalReset || undefined;
+
+  for (const [model, reset] of Object.entries(disk.rateLimitResets ?? {})) {
+    if (reset > (target.rateLimitResets[model] ?? 0)) {
+      target.rateLimitResets[model] = reset;
+    }
+  }
+}
+
+/**
+ * Three-way merge of the in-memory account list with the accounts file.
+ * Memory order wins; accounts added by other processes are appended and
+ * accounts removed by other processes are dropped.
+ */
+export function mergeAccounts(
+  memory: ManagedAccount[],
+  disk: ManagedAccount[],
+  state: AccountMergeState,
+): ManagedAccount[] {
+  const diskById = new Map(disk.map((account) => [account.id, account]));
+  const memoryIds = new Set(memory.map((account) => account.id));
+  const merged: ManagedAccount[] = [];
+
+  for (const account of memory) {
+    const diskAccount = diskById.get(account.id);
+    if (!diskAccount) {
+      if (state.knownDiskIds.has(account.id)) continue;
+      merged.push(account);
+      continue;
+    }
+    mergeAccountInto(account, diskAccount);
+    merged.push(account);
+  }
+
+  for (const diskAccount of disk) {
+    if (memoryIds.has(diskAccount.id)) continue;
+    if (state.removedIds.has(diskAccount.id)) continue;
+    merged.push({
+      ...serializeAccount(diskAccount),
+      rateLimitResets: { ...(diskAccount.rateLimitResets ?? {}) },
+      consecutiveFailures: diskAccount.consecutiveFailures ?? 0,
+    });
+  }
+
+  return merged;
+}
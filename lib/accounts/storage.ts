@@ -0,0 +1,59 @@
+import { createHash, randomUUID } from "node:crypto";
+import type { VersionedStorage } from "../storage-migrations.js";
+import type { ManagedAccount } from "./types.js";
+
+export const ACCOUNTS_STORAGE_VERSION = 2;
+
+/**
+ * Derive a stable account ID. Accounts with a known user + workspace get a
+ * deterministic ID so re-adding the same login keeps existing bindings.
+ */
+export function createAccountId(userId?: string, accountId?: string): string {
+  if (userId && accountId) {
+    const digest = createHash("sha256")
+      .update(`${userId}|${accountId}`)
+      .digest("hex");
+    return `acct_${digest.slice(0, 16)}`;
+  }
+  return `acct_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+/**
+ * v1 -> v2: every account has a unique stable `id` and an explicit `enabled` flag.
+ * `resolveMissingId` lets a running process reuse the IDs it already handed
+ * out for accounts that a pre-ID build wrote back without them.
+ */
+function migrateV1ToV2(
+  data: Record<string, unknown>,
+  resolveMissingId?: (account: ManagedAccount) => string | undefined,
+): Record<string, unknown> {
+  const accounts = Array.isArray(data.accounts)
+    ? (data.accounts as ManagedAccount[])
+    : [];
+  const seen = new Set<string>();
+
+  const migrated = accounts.map((account) => {
+    let id = account.id;
+    if (!id || seen.has(id)) {
+      id = resolveMissingId?.(account) ?? createAccountId(account.userId, account.accountId);
+      if (seen.has(id)) id = createAccountId();
+    }
+    seen.add(id);
+    return { ...account, id, enabled: account.enabled ?? true };
+  });
+
+  return { ...data, accounts: migrated };
+}
+
+/** Versioned schema of `openai-accounts.json`. */
+export function getAccountsStorage(
+  resolveMissingId?: (account: ManagedAccount) => string | undefined,
+): VersionedStorage {
+  return {
+    name: "accounts file",
+    currentVersion: ACCOUNTS_STORAGE_VERSION,
+    migrations: [
+      { from: 1, migrate: (data) => migrateV1ToV2(data, resolveMissingId) },
+    ],
+  };
+}
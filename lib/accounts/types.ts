@@ -1,9 +1,18 @@
 export interface ManagedAccount {
+  /** Stable identifier used by session bindings, snapshots and retry bookkeeping */
+  id: string;
+  /** Position in the rotation order; renumbered when accounts are removed */
   index: number;
+  /** User-chosen display name; falls back to email */
+  label?: string;
   email?: string;
   userId?: string;
   accountId?: string;
   planType?: string;
+  /** Disabled accounts stay stored but are never selected; missing means enabled */
+  enabled?: boolean;
+  /** Last change to user-managed settings (label, enabled); newer wins when merging with disk */
+  updatedAt?: number;
   addedAt: number;
   lastUsed?: number;
   parts: {
@@ -14,26 +23,83 @@ export interface ManagedAccount {
   rateLimitResets: Record<string, number>;
   globalRateLimitReset?: number;
   consecutiveFailures: number;
+  /** Kind of the last failure; permanent failures are never retried automatically */
+  failureKind?: "transient" | "permanent";
+  /** Transient failures exclude the account until this time (exponential backoff) */
+  cooldownUntil?: number;
   isRefreshing?: boolean;
   refreshPromise?: Promise<boolean>;
   lastRefreshError?: string;
+  /** Usage windows past their drain threshold, mapped to the window reset time (0 = unknown) */
+  drainingWindows?: Partial<Record<UsageWindowName, number>>;
+}
+
+export type UsageWindowName = "primary" | "secondary";
+
+/** Used-percent thresholds (0-100) at which an account starts draining, per usage window */
+export type DrainThresholds = Record<UsageWindowName, number>;
+
+/** Cool-down after transient failures: baseMs, doubled per consecutive failure, capped at maxMs */
+export interface FailureBackoff {
+  baseMs: number;
+  maxMs: number;
+  /** How often accounts whose cool-down elapsed are probed with a token refresh */
+  probeIntervalMs: number;
+}
+
+/** Encrypted refresh + access token of one account (AES-256-GCM). */
+export interface SealedCredentials {
+  alg: "aes-256-gcm";
+  /** How the key was obtained: scrypt over a passphrase, or a random keyfile */
+  kdf: "scrypt" | "keyfile";
+  /** Base64 scrypt salt (kdf "scrypt" only) */
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Account as written to disk; credentials are either plaintext or sealed. */
+export type StoredAccount = Omit<ManagedAccount, "parts"> & {
+  parts?: ManagedAccount["parts"];
+  sealed?: SealedCredentials;
+};
+
+/**
+ * Converts accounts between their in-memory and on-disk form. Implementations
+ * decide whether credentials are stored in plaintext or encrypted.
+ */
+export interface CredentialStore {
+  /** Whether `seal` encrypts credentials */
+  readonly encrypted: boolean;
+  seal(account: ManagedAccount): StoredAccount;
+  /** @throws CredentialStoreError when sealed credentials cannot be decrypted */
+  open(account: StoredAccount): ManagedAccount;
 }
 
 export interface AccountsStorage {
-  version: 1;
-  accounts: ManagedAccount[];
+  version: 2;
+  accounts: StoredAccount[];
   activeAccountIndex: number;
   roundRobinCursor?: number;
 }
 
 export interface MultiAccountConfig {
-  accountSelectionStrategy: "sticky" | "round-robin" | "hybrid";
+  accountSelectionStrategy: "sticky" | "round-robin" | "hybrid" | "headroom";
   debug: boolean;
   quietMode: boolean;
   pidOffsetEnabled: boolean;
   proactiveRefreshThresholdMs: number;
   removeOnInvalidGrant: boolean;
   perModelRateLimits: boolean;
+  drainThresholds: DrainThresholds;
+  failureBackoff: FailureBackoff;
+  /** Requests allowed in flight per account at once; 0 = unbounded */
+  maxInFlightPerAccount: number;
+  /** What a request does when its account is at the limit: wait for a slot, or try another account first */
+  inFlightOverflow: "queue" | "spill";
+  /** How credentials are written to disk; defaults to plaintext */
+  credentialStore?: CredentialStore;
 }
 
 export const DEFAULT_MULTI_ACCOUNT_CONFIG: MultiAccountConfig = {
@@ -44,4 +110,12 @@ export const DEFAULT_MULTI_ACCOUNT_CONFIG: MultiAccountConfig = {
   proactiveRefreshThresholdMs: 5 * 60 * 1000,
   removeOnInvalidGrant: true,
   perModelRateLimits: true,
+  drainThresholds: { primary: 100, secondary: 100 },
+  failureBackoff: {
+    baseMs: 30 * 1000,
+    maxMs: 30 * 60 * 1000,
+    probeIntervalMs: 60 * 1000,
+  },
+  maxInFlightPerAccount: 0,
+  inFlightOverflow: "spill",
 };
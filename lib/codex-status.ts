@@ -2,7 +2,12 @@ import { promises as fs, existsSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { homedir } from "node:os";
 import { createHash, randomBytes } from "node:crypto";
-import type { ManagedAccount } from "./accounts/types.js";
+import type { DrainThresholds, ManagedAccount } from "./accounts/types.js";
+import { getStorageVersion, migrateStorage } from "./storage-migrations.js";
+import type { VersionedStorage } from "./storage-migrations.js";
+import { fetchWithTimeouts } from "./request/timeouts.js";
+import { formatUsageTotals } from "./usage-ledger.js";
+import type { UsageTotals } from "./usage-ledger.js";
 
 export interface CodexRateLimitSnapshot {
   key?: string;
@@ -53,10 +58,51 @@ const STALENESS_TTL_MS = 15 * 60 * 1000;
 const SNAPSHOT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 const SNAPSHOTS_FILE = "codex-snapshots.json";
 
+interface PersistedSnapshots {
+  version: 2;
+  snapshots: Array<[string, CodexRateLimitSnapshot]>;
+}
+
+const SNAPSHOTS_STORAGE: VersionedStorage = {
+  name: "usage snapshot cache",
+  currentVersion: 2,
+  // Version 1 was a bare array of [key, snapshot] entries.
+  readVersion: (data) =>
+    Array.isArray(data)
+      ? 1
+      : typeof (data as { version?: unknown })?.version === "number"
+        ? (data as { version: number }).version
+        : undefined,
+  migrations: [
+    {
+      from: 1,
+      migrate: (data) => ({ snapshots: data as unknown as PersistedSnapshots["snapshots"] }),
+    },
+  ],
+};
+
+/**
+ * Snapshot entries from the cache file, or null when it is missing, unreadable
+ * or written by a newer plugin (the cache is then left alone).
+ */
+function readSnapshotEntries(
+  path: string,
+  data: unknown,
+): PersistedSnapshots["snapshots"] | null {
+  try {
+    const { data: migrated } = migrateStorage(path, data, SNAPSHOTS_STORAGE);
+    const entries = (migrated as Partial<PersistedSnapshots>).snapshots;
+    return Array.isArray(entries) ? entries : null;
+  } catch {
+    return null;
+  }
+}
+
 const WHAM_USAGE_URL = "https://chatgpt.com/backend-api/wham/usage";
 const CODEX_USAGE_URL = "https://api.openai.com/api/codex/usage";
 
-function getCacheDir(): string {
+/** Plugin cache directory; `OPENCODE_OPENAI_CACHE_DIR` overrides it (tests, sandboxes) */
+export function getCacheDir(): string {
   const override = process.env.OPENCODE_OPENAI_CACHE_DIR;
   if (override) return override;
   return join(homedir(), ".config", "opencode", "cache");
@@ -77,6 +123,14 @@ export class CodexStatusManager {
   }
 
   private getSnapshotKey(account: Partial<ManagedAccount> & { plan?: string }): string {
+    if (account.id) {
+      return `id:${account.id}`;
+    }
+    return this.getLegacySnapshotKey(account);
+  }
+
+  /** Key used before accounts had stable IDs; still read so cached usage survives the upgrade. */
+  private getLegacySnapshotKey(account: Partial<ManagedAccount> & { plan?: string }): string {
     const plan = account.planType || account.plan || "";
     if (account.accountId && account.email && plan) {
       return `${account.accountId}|${account.email.toLowerCase()}|${plan}`;
@@ -99,6 +153,18 @@ export class CodexStatusManager {
     return "unknown";
   }
 
+  private findSnapshot(account: ManagedAccount): CodexRateLimitSnapshot | undefined {
+    const key = this.getSnapshotKey(account);
+    const snapshot = this.snapshots.get(key);
+    if (snapshot || !account.id) return snapshot;
+
+    const legacy = this.snapshots.get(this.getLegacySnapshotKey(account));
+    if (legacy) {
+      this.snapshots.set(key, legacy);
+    }
+    return legacy;
+  }
+
   async updateFromHeaders(
     account: ManagedAccount,
     headers: Record<string, string | string[] | undefined>,
@@ -139,7 +205,7 @@ export class CodexStatusManager {
     const balance = getHeader("x-codex-credits-balance");
 
     const key = this.getSnapshotKey(account);
-    const existing = this.snapshots.get(key);
+    const existing = this.findSnapshot(account);
 
     const snapshot: CodexRateLimitSnapshot = {
       accountId: account.accountId || "",
@@ -193,8 +259,7 @@ export class CodexStatusManager {
     account: ManagedAccount,
   ): Promise<(CodexRateLimitSnapshot & { isStale: boolean }) | null> {
     await this.ensureInitialized();
-    const key = this.getSnapshotKey(account);
-    const snapshot = this.snapshots.get(key);
+    const snapshot = this.findSnapshot(account);
     if (!snapshot) return null;
 
     return {
@@ -211,7 +276,16 @@ export class CodexStatusManager {
     }));
   }
 
-  async renderStatus(account: ManagedAccount): Promise<string[]> {
+  async renderStatus(
+    account: ManagedAccount,
+    opts: {
+      drainThresholds?: DrainThresholds;
+      /** Requests in flight on the account; limit 0 = unbounded */
+      inFlight?: { active: number; queued: number; limit: number };
+      /** Tokens recorded in the usage ledger for the account */
+      usage?: UsageTotals;
+    } = {},
+  ): Promise<string[]> {
     const snapshot = await this.getSnapshot(account);
     const lines: string[] = [];
     const staleLabel = snapshot?.isStale ? " (stale)" : "";
@@ -223,9 +297,16 @@ export class CodexStatusManager {
       return `${mins}m`;
     };
 
+    const renderDrain = (threshold: number | undefined, usedPercent: number | null) => {
+      if (threshold === undefined || threshold >= 100) return "";
+      const draining = usedPercent !== null && usedPercent >= threshold;
+      return draining ? ` DRAINING (>= ${threshold}%)` : ` (drain at ${threshold}%)`;
+    };
+
     const renderBar = (
       label: string,
       data: { usedPercent: number; resetAt: number } | null,
+      threshold?: number,
     ) => {
       const width = 20;
       const usedPercent = data?.usedPercent ?? 100;
@@ -263,19 +344,34 @@ export class CodexStatusManager {
           resetStr = ` (resets ${timeStr})`;
         }
       } else if (!data) {
-        return `  ${(label + ":").padEnd(16)} [${"-".repeat(width)}] unknown`;
+        return `  ${(label + ":").padEnd(16)} [${"-".repeat(width)}] unknown${renderDrain(threshold, null)}`;
       }
 
       const statusStr = `${leftPercent.toFixed(0)}% left`.padEnd(9);
-      return `  ${(label + ":").padEnd(16)} [${bar}] ${statusStr}${resetStr}${staleLabel}`;
+      return `  ${(label + ":").padEnd(16)} [${bar}] ${statusStr}${resetStr}${staleLabel}${renderDrain(threshold, usedPercent)}`;
+    };
+
+    const renderInFlight = (): string[] => {
+      const inFlight = opts.inFlight;
+      if (!inFlight) return [];
+      const limit = inFlight.limit > 0 ? `/${inFlight.limit}` : "";
+      const queued = inFlight.queued > 0 ? ` (${inFlight.queued} queued)` : "";
+      return [`  In flight:         ${inFlight.active}${limit}${queued}`];
+    };
+
+    const renderUsage = (): string[] => {
+      if (!opts.usage || opts.usage.requests === 0) return [];
+      return [`  Tokens (30d):      ${formatUsageTotals(opts.usage)}`];
     };
 
     if (!snapshot) {
       if (account.planType) {
         lines.push(`  Plan:              OAuth ${account.planType}`);
       }
-      lines.push(renderBar("5h limit", null));
-      lines.push(renderBar("Weekly limit", null));
+      lines.push(renderBar("5h limit", null, opts.drainThresholds?.primary));
+      lines.push(renderBar("Weekly limit", null, opts.drainThresholds?.secondary));
+      lines.push(...renderInFlight());
+      lines.push(...renderUsage());
       return lines;
     }
 
@@ -287,14 +383,14 @@ export class CodexStatusManager {
 
     const primaryLabel = formatWindow(snapshot.primary?.windowMinutes || 0);
     const primaryHeader = primaryLabel === "5h" ? "5h limit" : `${primaryLabel || "5h"} limit`;
-    lines.push(renderBar(primaryHeader, snapshot.primary));
+    lines.push(renderBar(primaryHeader, snapshot.primary, opts.drainThresholds?.primary));
 
     const secondaryLabel = formatWindow(snapshot.secondary?.windowMinutes || 0);
     const secondaryHeader =
       secondaryLabel === "7d" || secondaryLabel === "weekly"
         ? "Weekly limit"
         : `${secondaryLabel || "Weekly"} limit`;
-    lines.push(renderBar(secondaryHeader, snapshot.secondary));
+    lines.push(renderBar(secondaryHeader, snapshot.secondary, opts.drainThresholds?.secondary));
 
     if (snapshot.credits) {
       const { unlimited, balance } = snapshot.credits;
@@ -302,6 +398,8 @@ export class CodexStatusManager {
       lines.push(`  Credits  ${creditStr}${staleLabel}`);
     }
 
+    lines.push(...renderInFlight());
+    lines.push(...renderUsage());
     return lines;
   }
 
@@ -310,7 +408,7 @@ export class CodexStatusManager {
     await this.ensureInitialized();
 
     const key = this.getSnapshotKey(account);
-    const existing = this.snapshots.get(key);
+    const existing = this.findSnapshot(account);
 
     const toMs = (s: number | null | undefined) => {
       if (s === null || s === undefined) return null;
@@ -357,7 +455,7 @@ export class CodexStatusManager {
     const url = isChatGPT ? WHAM_USAGE_URL : CODEX_USAGE_URL;
 
     try {
-      const res = await fetch(url, {
+      const res = await fetchWithTimeouts("status", url, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           "chatgpt-account-id": account.accountId || "",
@@ -411,9 +509,12 @@ export class CodexStatusManager {
     const path = getCachePath(SNAPSHOTS_FILE);
     if (!existsSync(path)) return;
     try {
-      const data = JSON.parse(await fs.readFile(path, "utf-8"));
-      if (Array.isArray(data)) {
-        this.snapshots = new Map(data);
+      const entries = readSnapshotEntries(
+        path,
+        JSON.parse(await fs.readFile(path, "utf-8")),
+      );
+      if (entries) {
+        this.snapshots = new Map(entries);
       }
     } catch {
       // ignore
@@ -438,8 +539,14 @@ export class CodexStatusManager {
         }
       }
 
-      if (Array.isArray(diskData)) {
-        const diskMap = new Map<string, CodexRateLimitSnapshot>(diskData);
+      if ((getStorageVersion(SNAPSHOTS_STORAGE, diskData) ?? 0) > SNAPSHOTS_STORAGE.currentVersion) {
+        // Cache belongs to a newer plugin; keep ours in memory only.
+        return;
+      }
+
+      const diskEntries = readSnapshotEntries(path, diskData);
+      if (diskEntries) {
+        const diskMap = new Map<string, CodexRateLimitSnapshot>(diskEntries);
         const now = Date.now();
 
         for (const [key, memoryValue] of this.snapshots) {
@@ -458,7 +565,11 @@ export class CodexStatusManager {
         this.snapshots = diskMap;
       }
 
-      const data = JSON.stringify(Array.from(this.snapshots.entries()), null, 2);
+      const payload: PersistedSnapshots = {
+        version: 2,
+        snapshots: Array.from(this.snapshots.entries()),
+      };
+      const data = JSON.stringify(payload, null, 2);
       const tmpPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
       await fs.writeFile(tmpPath, data, { encoding: "utf-8", mode: 0o600 });
       await fs.rename(tmpPath, path);
@@ -1,7 +1,16 @@
 import { readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { PluginConfig } from "./types.js";
+import { MODEL_FALLBACKS } from "./constants.js";
+import { DEFAULT_TOOL_OUTPUT_POLICY } from "./request/helpers/input-utils.js";
+import type { ToolOutputPolicy } from "./request/helpers/input-utils.js";
+import type {
+	ContextCompactionConfig,
+	FallbackChainConfig,
+	ModelAliasConfig,
+	PluginConfig,
+	ToolOutputLimits,
+} from "./types.js";
 
 const CONFIG_PATH = join(homedir(), ".opencode", "openai-codex-auth-config.json");
 
@@ -58,3 +67,144 @@ export function getCodexMode(pluginConfig: PluginConfig): boolean {
 	// Use config setting (defaults to true)
 	return pluginConfig.codexMode ?? true;
 }
+
+/**
+ * Get the effective model fallback chains
+ * Config chains replace the built-in single-hop MODEL_FALLBACKS entirely
+ *
+ * @param pluginConfig - Plugin configuration from file
+ * @returns Fallback chains with at least two models each
+ */
+export function getFallbackChains(pluginConfig: PluginConfig): FallbackChainConfig[] {
+	if (!Array.isArray(pluginConfig.fallbackChains)) {
+		return Object.entries(MODEL_FALLBACKS).map(([model, fallback]) => ({
+			models: [model, fallback],
+		}));
+	}
+
+	return pluginConfig.fallbackChains.filter((chain) => {
+		const valid =
+			Array.isArray(chain?.models) &&
+			chain.models.length >= 2 &&
+			chain.models.every((model) => typeof model === "string" && model.length > 0);
+		if (!valid) {
+			console.warn(
+				`[openai-codex-plugin] Ignoring fallback chain ${JSON.stringify(chain)}: "models" needs at least two model names`,
+			);
+		}
+		return valid;
+	});
+}
+
+const REASONING_EFFORTS = ["none", "minimal", "low", "medium", "high", "xhigh"];
+const REASONING_SUMMARIES = ["auto", "concise", "detailed", "off", "on"];
+const TEXT_VERBOSITIES = ["low", "medium", "high"];
+
+/**
+ * Get the user-defined model aliases, dropping invalid entries
+ * @param pluginConfig - Plugin configuration
+ * @returns Aliases keyed by config model ID
+ */
+export function getModelAliases(pluginConfig: PluginConfig): Record<string, ModelAliasConfig> {
+	const aliases = pluginConfig.modelAliases;
+	if (!aliases || typeof aliases !== "object" || Array.isArray(aliases)) {
+		return {};
+	}
+
+	const valid: Record<string, ModelAliasConfig> = {};
+	for (const [modelId, alias] of Object.entries(aliases)) {
+		const problem = validateModelAlias(alias);
+		if (problem) {
+			console.warn(
+				`[openai-codex-plugin] Ignoring model alias "${modelId}": ${problem}`,
+			);
+			continue;
+		}
+		valid[modelId] = alias;
+	}
+	return valid;
+}
+
+function validateModelAlias(alias: ModelAliasConfig): string | undefined {
+	if (typeof alias?.model !== "string" || alias.model.trim().length === 0) {
+		return '"model" must be a non-empty string';
+	}
+	if (alias.reasoningEffort !== undefined && !REASONING_EFFORTS.includes(alias.reasoningEffort)) {
+		return `"reasoningEffort" must be one of ${REASONING_EFFORTS.join(", ")}`;
+	}
+	if (alias.reasoningSummary !== undefined && !REASONING_SUMMARIES.includes(alias.reasoningSummary)) {
+		return `"reasoningSummary" must be one of ${REASONING_SUMMARIES.join(", ")}`;
+	}
+	if (alias.textVerbosity !== undefined && !TEXT_VERBOSITIES.includes(alias.textVerbosity)) {
+		return `"textVerbosity" must be one of ${TEXT_VERBOSITIES.join(", ")}`;
+	}
+	return undefined;
+}
+
+const COMPACTION_STRATEGIES = ["summarize", "drop", "off"];
+
+/**
+ * Get the context-overflow compaction settings, with defaults for missing or invalid fields
+ * @param pluginConfig - Plugin configuration from file
+ * @returns Complete compaction settings
+ */
+export function getContextCompaction(pluginConfig: PluginConfig): Required<ContextCompactionConfig> {
+	const config = pluginConfig.contextCompaction ?? {};
+	const defaults: Required<ContextCompactionConfig> = {
+		strategy: "summarize",
+		preserveRecentItems: 8,
+		maxAttempts: 2,
+	};
+
+	const strategy = config.strategy ?? defaults.strategy;
+	if (!COMPACTION_STRATEGIES.includes(strategy)) {
+		console.warn(
+			`[openai-codex-plugin] Ignoring contextCompaction.strategy "${strategy}": must be one of ${COMPACTION_STRATEGIES.join(", ")}`,
+		);
+	}
+	const count = (value: number | undefined, fallback: number, name: string): number => {
+		if (value === undefined) return fallback;
+		if (Number.isInteger(value) && value >= 0) return value;
+		console.warn(
+			`[openai-codex-plugin] Ignoring contextCompaction.${name} ${JSON.stringify(value)}: must be a non-negative integer`,
+		);
+		return fallback;
+	};
+
+	return {
+		strategy: COMPACTION_STRATEGIES.includes(strategy) ? strategy : defaults.strategy,
+		preserveRecentItems: count(config.preserveRecentItems, defaults.preserveRecentItems, "preserveRecentItems"),
+		maxAttempts: count(config.maxAttempts, defaults.maxAttempts, "maxAttempts"),
+	};
+}
+
+/**
+ * Get the tool-output truncation policy; invalid limits fall back to the defaults
+ * @param pluginConfig - Plugin configuration from file
+ * @returns Policy with every limit resolved
+ */
+export function getToolOutputPolicy(pluginConfig: PluginConfig): ToolOutputPolicy {
+	const config = pluginConfig.toolOutputTruncation ?? {};
+	const limit = (value: number | undefined, name: string): number | undefined => {
+		if (value === undefined) return undefined;
+		if (Number.isInteger(value) && value >= 0) return value;
+		console.warn(
+			`[openai-codex-plugin] Ignoring toolOutputTruncation ${name} ${JSON.stringify(value)}: must be a non-negative integer`,
+		);
+		return undefined;
+	};
+
+	const tools: Record<string, ToolOutputLimits> = {};
+	for (const [toolName, limits] of Object.entries(config.tools ?? {})) {
+		tools[toolName] = {
+			maxChars: limit(limits?.maxChars, `tools.${toolName}.maxChars`),
+			tailChars: limit(limits?.tailChars, `tools.${toolName}.tailChars`),
+		};
+	}
+
+	return {
+		maxChars: limit(config.maxChars, "maxChars") ?? DEFAULT_TOOL_OUTPUT_POLICY.maxChars,
+		tailChars: limit(config.tailChars, "tailChars") ?? DEFAULT_TOOL_OUTPUT_POLICY.tailChars,
+		tools,
+	};
+}
@@ -6,6 +6,10 @@
 
 import { CODEX_BASE_URL, URL_PATHS, PLUGIN_VERSION, CODEX_ORIGINATOR } from "./constants.js";
 import { release as osRelease } from "node:os";
+import { join } from "node:path";
+import { getCacheDir } from "./codex-status.js";
+import { readJsonFile, updateJsonSecure } from "./secure-file.js";
+import { fetchWithTimeouts } from "./request/timeouts.js";
 
 /** Model info returned from the /models endpoint */
 export interface ModelInfo {
@@ -13,7 +17,8 @@ export interface ModelInfo {
 	display_name: string;
 	description?: string;
 	default_reasoning_level?: string;
-	supported_reasoning_levels?: string[];
+	/** Plain effort names, or `{ effort, description }` presets depending on backend version */
+	supported_reasoning_levels?: Array<string | { effort: string; description?: string }>;
 	visibility?: string;
 	supported_in_api?: boolean;
 }
@@ -23,9 +28,119 @@ interface ModelsResponse {
 	models: ModelInfo[];
 }
 
-/** Cache for available models per account */
-const modelsCache = new Map<string, { models: ModelInfo[]; fetchedAt: number }>();
+interface CachedModels {
+	models: ModelInfo[];
+	fetchedAt: number;
+}
+
+/** Cache for available models per account, hydrated from disk on first use */
+const modelsCache = new Map<string, CachedModels>();
+/** Entries older than this are still served, but refreshed in the background */
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+/** Minimum gap between refresh attempts after a failed one (offline, 5xx) */
+const REFRESH_FAILURE_BACKOFF_MS = 60 * 1000;
+
+/** Refreshes in progress per account, so concurrent requests share one call */
+const refreshes = new Map<string, Promise<ModelInfo[]>>();
+/** Time of the last failed refresh per account; cleared on success */
+const refreshFailures = new Map<string, number>();
+
+const MODELS_CACHE_FILE = "codex-models.json";
+
+/** Last successful /models result per ChatGPT account, shared across OpenCode processes */
+interface PersistedModelsCache {
+	version: 1;
+	accounts: Record<string, CachedModels>;
+}
+
+function getModelsCachePath(): string {
+	return join(getCacheDir(), MODELS_CACHE_FILE);
+}
+
+function readPersistedModels(): PersistedModelsCache["accounts"] {
+	const data = readJsonFile(getModelsCachePath()) as Partial<PersistedModelsCache> | null;
+	if (data?.version !== 1 || !data.accounts || typeof data.accounts !== "object") {
+		return {};
+	}
+	return data.accounts;
+}
+
+async function persistModels(accountId: string, models: ModelInfo[], fetchedAt: number): Promise<void> {
+	try {
+		await updateJsonSecure(getModelsCachePath(), (current): PersistedModelsCache => {
+			const disk = current as Partial<PersistedModelsCache> | null;
+			const accounts = disk?.version === 1 && disk.accounts ? disk.accounts : {};
+			return { version: 1, accounts: { ...accounts, [accountId]: { models, fetchedAt } } };
+		});
+	} catch (error) {
+		// The disk copy only feeds provider registration; keep serving requests.
+		console.error("[openai-codex-plugin] Failed to cache models:", error);
+	}
+}
+
+/**
+ * Last known models per account, from this process or the disk cache
+ *
+ * @param accountIds - ChatGPT account IDs to look up
+ * @returns Models per account; accounts never listed successfully are omitted
+ */
+export function getCachedModels(accountIds: string[]): Map<string, ModelInfo[]> {
+	const persisted = readPersistedModels();
+	const result = new Map<string, ModelInfo[]>();
+	for (const accountId of accountIds) {
+		const models = modelsCache.get(accountId)?.models ?? persisted[accountId]?.models;
+		if (Array.isArray(models)) {
+			result.set(accountId, models);
+		}
+	}
+	return result;
+}
+
+/** Whether the disk cache has been loaded into `modelsCache` for model lookups */
+let lookupHydrated = false;
+
+/**
+ * Load the lists persisted by earlier runs for accounts this process has not
+ * fetched yet, so lookups work before the first request's prefetch returns.
+ */
+function hydrateForLookup(): void {
+	if (lookupHydrated) return;
+	lookupHydrated = true;
+	for (const [accountId, entry] of Object.entries(readPersistedModels())) {
+		if (modelsCache.has(accountId)) continue;
+		if (!Array.isArray(entry?.models) || typeof entry.fetchedAt !== "number") continue;
+		modelsCache.set(accountId, entry);
+	}
+}
+
+/**
+ * Look up a model in the model lists fetched by this process, or persisted
+ * by an earlier one
+ *
+ * @param slug - API model name (e.g., "gpt-5.2-codex")
+ * @returns Model info from the first account listing it, or undefined
+ */
+export function getModelInfo(slug: string): ModelInfo | undefined {
+	hydrateForLookup();
+	const wanted = slug.toLowerCase();
+	for (const { models } of modelsCache.values()) {
+		const match = models.find((model) => model.slug?.toLowerCase() === wanted);
+		if (match) return match;
+	}
+	return undefined;
+}
+
+/**
+ * Reasoning effort names a model supports, in backend order
+ *
+ * @param model - Model info from the /models endpoint
+ * @returns Effort names (empty when the backend does not say)
+ */
+export function getReasoningLevels(model: ModelInfo): string[] {
+	return (model.supported_reasoning_levels ?? [])
+		.map((level) => (typeof level === "string" ? level : level?.effort))
+		.filter((level): level is string => typeof level === "string" && level.length > 0);
+}
 
 /**
  * Generates User-Agent for models requests
@@ -38,31 +153,74 @@ function getCodexUserAgent(): string {
 	return `${CODEX_ORIGINATOR}/${PLUGIN_VERSION} (${osType} ${osVersion}; ${arch}) opencode-plugin`;
 }
 
+function isFresh(entry: CachedModels | undefined, now = Date.now()): boolean {
+	return !!entry && now - entry.fetchedAt < CACHE_TTL_MS;
+}
+
 /**
- * Fetch available models from the Codex backend
- * This call may help "register" the client and enable access to newer models
- *
- * @param accessToken - OAuth access token
- * @param accountId - ChatGPT account ID
- * @returns List of available models
+ * Cached entry for an account: this process's copy, or the newer one on disk
+ * when another OpenCode process refreshed it in the meantime
  */
-export async function fetchAvailableModels(
+function getCachedEntry(accountId: string): CachedModels | undefined {
+	const memory = modelsCache.get(accountId);
+	if (memory && isFresh(memory)) return memory;
+
+	const disk = readPersistedModels()[accountId];
+	if (
+		disk &&
+		Array.isArray(disk.models) &&
+		typeof disk.fetchedAt === "number" &&
+		disk.fetchedAt > (memory?.fetchedAt ?? -1)
+	) {
+		modelsCache.set(accountId, disk);
+		return disk;
+	}
+	return memory;
+}
+
+/**
+ * Fetch the model list from the backend and cache it. Concurrent calls for
+ * one account share a single request; after a failure, further attempts are
+ * skipped for a minute and the last known list is returned instead.
+ */
+function refreshModels(
 	accessToken: string,
 	accountId: string,
+	signal?: AbortSignal | null,
 ): Promise<ModelInfo[]> {
-	const cacheKey = accountId;
-	const cached = modelsCache.get(cacheKey);
+	const pending = refreshes.get(accountId);
+	if (pending) return pending;
 
-	// Return cached if still valid
-	if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
-		return cached.models;
+	const refresh = requestModels(accessToken, accountId, signal).finally(() => {
+		refreshes.delete(accountId);
+	});
+	refreshes.set(accountId, refresh);
+	return refresh;
+}
+
+async function requestModels(
+	accessToken: string,
+	accountId: string,
+	signal?: AbortSignal | null,
+): Promise<ModelInfo[]> {
+	const cached = modelsCache.get(accountId);
+	const failedAt = refreshFailures.get(accountId);
+	if (failedAt !== undefined && Date.now() - failedAt < REFRESH_FAILURE_BACKOFF_MS) {
+		return cached?.models || [];
 	}
 
 	const url = `${CODEX_BASE_URL}${URL_PATHS.CODEX_MODELS}?client_version=${PLUGIN_VERSION}`;
 
+	// Only the first failure of a streak is reported, not every offline request.
+	const reportFailure = (...message: unknown[]) => {
+		if (failedAt === undefined) console.error(...message);
+		refreshFailures.set(accountId, Date.now());
+	};
+
 	try {
-		const response = await fetch(url, {
+		const response = await fetchWithTimeouts("models", url, {
 			method: "GET",
+			signal,
 			headers: {
 				Authorization: `Bearer ${accessToken}`,
 				"chatgpt-account-id": accountId,
@@ -73,7 +231,7 @@ export async function fetchAvailableModels(
 		});
 
 		if (!response.ok) {
-			console.error(`[openai-codex-plugin] Failed to fetch models: ${response.status}`);
+			reportFailure(`[openai-codex-plugin] Failed to fetch models: ${response.status}`);
 			return cached?.models || [];
 		}
 
@@ -81,15 +239,47 @@ export async function fetchAvailableModels(
 		const models = data.models || [];
 
 		// Cache the result
-		modelsCache.set(cacheKey, { models, fetchedAt: Date.now() });
+		const fetchedAt = Date.now();
+		modelsCache.set(accountId, { models, fetchedAt });
+		refreshFailures.delete(accountId);
+		await persistModels(accountId, models, fetchedAt);
 
 		return models;
 	} catch (error) {
-		console.error("[openai-codex-plugin] Error fetching models:", error);
+		reportFailure("[openai-codex-plugin] Error fetching models:", error);
 		return cached?.models || [];
 	}
 }
 
+/**
+ * Fetch available models from the Codex backend
+ * This call may help "register" the client and enable access to newer models
+ *
+ * Stale-while-revalidate: a cached list (from this or another process) is
+ * returned right away, and refreshed in the background once it is older than
+ * five minutes. Only accounts without any cached list wait for the network.
+ *
+ * @param accessToken - OAuth access token
+ * @param accountId - ChatGPT account ID
+ * @param signal - Caller's abort signal
+ * @returns List of available models
+ */
+export async function fetchAvailableModels(
+	accessToken: string,
+	accountId: string,
+	signal?: AbortSignal | null,
+): Promise<ModelInfo[]> {
+	const cached = getCachedEntry(accountId);
+	if (cached && isFresh(cached)) {
+		return cached.models;
+	}
+	if (cached) {
+		void refreshModels(accessToken, accountId);
+		return cached.models;
+	}
+	return refreshModels(accessToken, accountId, signal);
+}
+
 /**
  * Check if a specific model is available for an account
  *
@@ -111,12 +301,12 @@ export async function isModelAvailable(
  * Pre-fetch models to potentially "unlock" access to newer models
  * Call this before making requests to ensure the backend knows about our client
  *
+ * Never blocks: a missing or stale list is refreshed in the background.
+ *
  * @param accessToken - OAuth access token
  * @param accountId - ChatGPT account ID
  */
-export async function prefetchModels(
-	accessToken: string,
-	accountId: string,
-): Promise<void> {
-	await fetchAvailableModels(accessToken, accountId);
+export function prefetchModels(accessToken: string, accountId: string): void {
+	if (isFresh(getCachedEntry(accountId))) return;
+	void refreshModels(accessToken, accountId);
 }
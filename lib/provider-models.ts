@@ -0,0 +1,171 @@
+/**
+ * Provider Model Registration
+ * Builds the `provider.openai.models` entries OpenCode offers from the models
+ * the configured accounts can use, with the bundled template as offline fallback
+ */
+
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ModelInfo } from "./models.js";
+import { getReasoningLevels } from "./models.js";
+import { normalizeModel } from "./request/request-transformer.js";
+import type { ConfigOptions } from "./types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Bundled template, relative to lib/ (sources) and dist/lib/ (build) */
+const BUNDLED_CONFIG_CANDIDATES = [
+	join(__dirname, "..", "config", "opencode-modern.json"),
+	join(__dirname, "..", "..", "config", "opencode-modern.json"),
+];
+
+type Modality = "text" | "audio" | "image" | "video" | "pdf";
+
+/** Limits for models the bundled template does not know */
+const DEFAULT_LIMIT = { context: 272000, output: 128000 };
+const DEFAULT_MODALITIES: ProviderModelConfig["modalities"] = {
+	input: ["text", "image"],
+	output: ["text"],
+};
+
+/** A `provider.openai.models` entry as OpenCode reads it */
+export interface ProviderModelConfig {
+	name: string;
+	limit?: { context: number; output: number };
+	modalities?: { input: Modality[]; output: Modality[] };
+	options?: Pick<ConfigOptions, "reasoningEffort">;
+	variants?: Record<string, ConfigOptions>;
+}
+
+/**
+ * Load the model entries of the bundled `config/opencode-modern.json`
+ *
+ * @returns Model entries keyed by model ID (empty if the template is missing)
+ */
+export function loadBundledProviderModels(): Record<string, ProviderModelConfig> {
+	for (const path of BUNDLED_CONFIG_CANDIDATES) {
+		try {
+			const config = JSON.parse(readFileSync(path, "utf8"));
+			const models = config?.provider?.openai?.models;
+			if (models && typeof models === "object") {
+				return models as Record<string, ProviderModelConfig>;
+			}
+		} catch {
+			// Try the next location
+		}
+	}
+	return {};
+}
+
+/**
+ * Build one variant per supported reasoning level, following the bundled
+ * template: detailed summaries for high and xhigh, auto otherwise
+ */
+function buildVariants(levels: string[]): Record<string, ConfigOptions> {
+	const variants: Record<string, ConfigOptions> = {};
+	for (const level of levels) {
+		variants[level] = {
+			reasoningEffort: level as ConfigOptions["reasoningEffort"],
+			reasoningSummary: level === "high" || level === "xhigh" ? "detailed" : "auto",
+			textVerbosity: "medium",
+		};
+	}
+	return variants;
+}
+
+function isListed(model: ModelInfo): boolean {
+	return model.visibility === undefined || model.visibility === "list";
+}
+
+/**
+ * Union of the listed models of all accounts
+ * @returns Models keyed by slug, or null when no account has a model list yet
+ */
+function collectAvailableModels(modelsByAccount: Iterable<ModelInfo[]>): Map<string, ModelInfo> | null {
+	const available = new Map<string, ModelInfo>();
+	let known = false;
+	for (const models of modelsByAccount) {
+		if (models.length === 0) continue;
+		known = true;
+		for (const model of models) {
+			if (!model?.slug || !isListed(model) || available.has(model.slug)) continue;
+			available.set(model.slug, model);
+		}
+	}
+	return known ? available : null;
+}
+
+/**
+ * Build provider model entries from the models each account can use
+ *
+ * Only models listed for at least one account are included. Without any
+ * account model list (offline, first start) the bundled template is used.
+ *
+ * @param modelsByAccount - Last known /models result per account
+ * @param bundled - Bundled template entries, for names, limits and modalities
+ * @returns Model entries keyed by model slug
+ */
+export function buildProviderModels(
+	modelsByAccount: Iterable<ModelInfo[]>,
+	bundled: Record<string, ProviderModelConfig> = loadBundledProviderModels(),
+): Record<string, ProviderModelConfig> {
+	const available = collectAvailableModels(modelsByAccount);
+	if (!available) {
+		return bundled;
+	}
+
+	const result: Record<string, ProviderModelConfig> = {};
+	for (const [slug, model] of available) {
+		const template = bundled[slug];
+		const levels = getReasoningLevels(model);
+		const entry: ProviderModelConfig = {
+			name: template?.name ?? `${model.display_name || slug} (OAuth)`,
+			limit: template?.limit ?? DEFAULT_LIMIT,
+			modalities: template?.modalities ?? DEFAULT_MODALITIES,
+		};
+		if (model.default_reasoning_level) {
+			entry.options = {
+				reasoningEffort: model.default_reasoning_level as ConfigOptions["reasoningEffort"],
+			};
+		}
+		const variants = levels.length > 0 ? buildVariants(levels) : template?.variants;
+		if (variants) {
+			entry.variants = variants;
+		}
+		result[slug] = entry;
+	}
+	return result;
+}
+
+/**
+ * Drop user-declared model entries (from opencode.json) whose API model no
+ * account can use. Entry IDs are resolved like request models, so aliases
+ * and legacy variant names are checked against the model they send.
+ *
+ * @param userModels - `provider.openai.models` entries from the user's config
+ * @param modelsByAccount - Last known /models result per account
+ * @returns The usable entries and the IDs of the dropped ones; everything is
+ *   kept while no account has a model list yet
+ */
+export function filterUserProviderModels<T>(
+	userModels: Record<string, T>,
+	modelsByAccount: Iterable<ModelInfo[]>,
+): { models: Record<string, T>; dropped: string[] } {
+	const available = collectAvailableModels(modelsByAccount);
+	if (!available) {
+		return { models: userModels, dropped: [] };
+	}
+
+	const slugs = new Set([...available.keys()].map((slug) => slug.toLowerCase()));
+	const models: Record<string, T> = {};
+	const dropped: string[] = [];
+	for (const [id, entry] of Object.entries(userModels)) {
+		if (slugs.has(id.toLowerCase()) || slugs.has(normalizeModel(id).toLowerCase())) {
+			models[id] = entry;
+		} else {
+			dropped.push(id);
+		}
+	}
+	return { models, dropped };
+}
@@ -0,0 +1,146 @@
+import type { ContextCompactionConfig, InputItem } from "../types.js";
+import { normalizeOrphanedToolOutputs } from "./helpers/input-utils.js";
+import { filterInput } from "./request-transformer.js";
+
+/**
+ * Shrinks the `input` of a request that exceeded the model's context window,
+ * oldest items first, so it can be sent again. Messages are never touched;
+ * only tool outputs and reasoning items, which dominate long agent sessions.
+ */
+
+export interface CompactionResult {
+  input: InputItem[];
+  /** Tool outputs replaced by an excerpt ("summarize") */
+  summarizedOutputs: number;
+  /** Tool calls removed together with their outputs ("drop") */
+  droppedToolCalls: number;
+  droppedReasoning: number;
+  /** Serialized size removed from the input, in characters */
+  savedChars: number;
+}
+
+/** Share of the serialized input each attempt tries to free. */
+const TARGET_REDUCTION = 0.3;
+/** Characters of a tool output kept as excerpt when summarizing. */
+const EXCERPT_CHARS = 300;
+const COMPACTED_MARKER = "[Tool output compacted to fit the context window:";
+
+const TOOL_CALL_TYPES = new Set(["function_call", "custom_tool_call", "local_shell_call"]);
+const TOOL_OUTPUT_TYPES = new Set([
+  "function_call_output",
+  "custom_tool_call_output",
+  "local_shell_call_output",
+]);
+
+/** Error codes and messages the backend uses when the input is too long. */
+const CONTEXT_OVERFLOW_PATTERN =
+  /context_length_exceeded|context window|maximum context length|input is too long|prompt is too long/i;
+
+/**
+ * Whether an error response body reports a context-window overflow.
+ */
+export function isContextOverflowError(errorBody: string): boolean {
+  return CONTEXT_OVERFLOW_PATTERN.test(errorBody);
+}
+
+function sizeOf(value: unknown): number {
+  return JSON.stringify(value)?.length ?? 0;
+}
+
+function getCallId(item: InputItem): string | undefined {
+  return typeof item.call_id === "string" ? item.call_id : undefined;
+}
+
+function outputText(output: unknown): string {
+  return typeof output === "string" ? output : (JSON.stringify(output) ?? "");
+}
+
+function summarizeOutput(item: InputItem): InputItem {
+  const text = outputText(item.output);
+  const excerpt = text.slice(0, EXCERPT_CHARS);
+  return {
+    ...item,
+    output: `${COMPACTED_MARKER} ${text.length - excerpt.length} of ${text.length} chars removed]\n${excerpt}`,
+  };
+}
+
+/**
+ * Compact the oldest tool outputs and reasoning items until roughly 30% of
+ * the input is freed. The last `preserveRecentItems` items stay untouched.
+ * The result gets the same cleanup as `transformRequestBody` (no item
+ * references or IDs, orphaned outputs turned into messages).
+ *
+ * @returns The compacted input, or null when nothing could be compacted
+ */
+export function compactInput(
+  input: InputItem[],
+  config: Required<ContextCompactionConfig>,
+): CompactionResult | null {
+  if (config.strategy === "off") return null;
+
+  const target = sizeOf(input) * TARGET_REDUCTION;
+  const protectedFrom = Math.max(0, input.length - config.preserveRecentItems);
+  const droppedCallIds = new Set<string>();
+  const result: CompactionResult = {
+    input: [],
+    summarizedOutputs: 0,
+    droppedToolCalls: 0,
+    droppedReasoning: 0,
+    savedChars: 0,
+  };
+
+  const kept: InputItem[] = [];
+  input.forEach((item, index) => {
+    if (index >= protectedFrom || result.savedChars >= target) {
+      kept.push(item);
+      return;
+    }
+
+    if (item.type === "reasoning") {
+      result.droppedReasoning++;
+      result.savedChars += sizeOf(item);
+      return;
+    }
+
+    if (!TOOL_OUTPUT_TYPES.has(item.type)) {
+      kept.push(item);
+      return;
+    }
+
+    const callId = getCallId(item);
+    if (config.strategy === "drop" && callId) {
+      droppedCallIds.add(callId);
+      result.savedChars += sizeOf(item);
+      return;
+    }
+
+    if (outputText(item.output).startsWith(COMPACTED_MARKER)) {
+      kept.push(item);
+      return;
+    }
+    const summarized = summarizeOutput(item);
+    const saved = sizeOf(item) - sizeOf(summarized);
+    if (saved <= 0) {
+      kept.push(item);
+      return;
+    }
+    result.summarizedOutputs++;
+    result.savedChars += saved;
+    kept.push(summarized);
+  });
+
+  // Calls whose outputs were dropped go too, so the input stays paired.
+  result.input = kept.filter((item) => {
+    const callId = getCallId(item);
+    if (!TOOL_CALL_TYPES.has(item.type) || !callId || !droppedCallIds.has(callId)) {
+      return true;
+    }
+    result.droppedToolCalls++;
+    result.savedChars += sizeOf(item);
+    return false;
+  });
+
+  if (result.savedChars === 0) return null;
+  result.input = normalizeOrphanedToolOutputs(filterInput(result.input) ?? []);
+  return result;
+}
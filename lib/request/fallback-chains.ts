@@ -0,0 +1,66 @@
+import type { FallbackChainConfig } from "../types.js";
+
+export type FallbackReason = "unsupported" | "rate-limit";
+
+export interface FallbackStep {
+  from: string;
+  to: string;
+  chain: FallbackChainConfig;
+}
+
+/**
+ * Resolves the next model of a configured fallback chain and remembers,
+ * per chain, which fallbacks were already announced.
+ */
+export class FallbackChains {
+  private readonly notified = new Map<FallbackChainConfig, Set<string>>();
+
+  constructor(private readonly chains: FallbackChainConfig[]) {}
+
+  /**
+   * Next model after `model` in the first chain containing it, skipping
+   * models the request already tried. Null at the end of the chain, or for
+   * rate-limit fallbacks when the chain does not opt into them.
+   */
+  getNext(
+    model: string,
+    reason: FallbackReason,
+    tried: ReadonlySet<string> = new Set(),
+  ): FallbackStep | null {
+    const normalized = toChainKey(model);
+    const triedKeys = new Set([...tried].map(toChainKey));
+    for (const chain of this.chains) {
+      const position = chain.models.findIndex((entry) => toChainKey(entry) === normalized);
+      if (position < 0) continue;
+      if (reason === "rate-limit" && !chain.onRateLimit) return null;
+
+      const to = chain.models
+        .slice(position + 1)
+        .find((entry) => !triedKeys.has(toChainKey(entry)));
+      return to ? { from: model, to, chain } : null;
+    }
+    return null;
+  }
+
+  /** Whether this fallback should be announced, according to the chain's `notify` setting. */
+  shouldNotify(step: FallbackStep): boolean {
+    const notify = step.chain.notify ?? "once";
+    if (notify === "never") return false;
+    if (notify === "always") return true;
+
+    let seen = this.notified.get(step.chain);
+    if (!seen) {
+      seen = new Set();
+      this.notified.set(step.chain, seen);
+    }
+    const key = `${toChainKey(step.from)}->${toChainKey(step.to)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }
+}
+
+/** Chains are matched case-insensitively and without an `openai/` provider prefix. */
+function toChainKey(model: string): string {
+  return model.toLowerCase().replace(/^openai\//, "");
+}
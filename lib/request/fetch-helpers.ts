@@ -11,6 +11,7 @@ import { logRequest } from "../logger.js";
 import { getModelFamily } from "../prompts/codex.js";
 import { transformRequestBody, normalizeModel } from "./request-transformer.js";
 import { convertSseToJson, ensureContentType } from "./response-handler.js";
+import type { ToolOutputPolicy } from "./helpers/input-utils.js";
 import type { UserConfig, RequestBody } from "../types.js";
 import {
   PLUGIN_NAME,
@@ -126,6 +127,7 @@ export function validateCodexBackendUrl(url: string): string {
  * @param url - Request URL
  * @param userConfig - User configuration
  * @param codexMode - Enable CODEX_MODE (bridge prompt instead of tool remap)
+ * @param toolOutputPolicy - Size limits for tool outputs
  * @returns Transformed body and updated init, or undefined if no body
  */
 export async function transformRequestForCodex(
@@ -133,6 +135,7 @@ export async function transformRequestForCodex(
   url: string,
   userConfig: UserConfig,
   codexMode = true,
+  toolOutputPolicy?: ToolOutputPolicy,
 ): Promise<{ body: RequestBody; updatedInit: RequestInit } | undefined> {
   if (!init?.body) return undefined;
 
@@ -161,6 +164,7 @@ export async function transformRequestForCodex(
       body,
       userConfig,
       codexMode,
+      toolOutputPolicy,
     );
 
     // Log transformed request
@@ -322,3 +326,27 @@ async function mapUsageLimit404(response: Response): Promise<Response | null> {
     headers,
   });
 }
+
+/**
+ * Sleeps for the given time unless the caller aborts first
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Caller's abort signal (e.g. `init.signal` of the request)
+ * @returns Resolves after `ms`; rejects with the signal's reason on abort
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,4 +1,4 @@
-import type { InputItem } from "../../types.js";
+import type { InputItem, ToolOutputTruncationConfig } from "../../types.js";
 
 const OPENCODE_PROMPT_SIGNATURES = [
 	"you are a coding agent running in the opencode",
@@ -120,14 +120,53 @@ const getCallId = (item: InputItem): string | null => {
 	return trimmed.length > 0 ? trimmed : null;
 };
 
+/** Tool-output limits with every field resolved */
+export type ToolOutputPolicy = Required<ToolOutputTruncationConfig>;
+
+export const DEFAULT_TOOL_OUTPUT_POLICY: ToolOutputPolicy = {
+	maxChars: 16000,
+	tailChars: 0,
+	tools: {},
+};
+
+const TRUNCATION_MARKER = /\n\.\.\.\[truncated \d+ of \d+ chars\]\.\.\.(\n|$)/;
+
+/**
+ * Truncate a tool output according to the policy, keeping its head and tail
+ * around a marker that says how much was removed
+ * @param text - Tool output
+ * @param toolName - Tool that produced it, for per-tool overrides
+ * @param policy - Truncation policy
+ * @returns The output, truncated if over the tool's limit
+ */
+export function truncateToolOutput(
+	text: string,
+	toolName: string | undefined,
+	policy: ToolOutputPolicy = DEFAULT_TOOL_OUTPUT_POLICY,
+): string {
+	const override = toolName ? policy.tools[toolName] : undefined;
+	const maxChars = override?.maxChars ?? policy.maxChars;
+	if (maxChars <= 0 || text.length <= maxChars) return text;
+	// Already truncated earlier in the pipeline; cutting again would remove the marker
+	if (TRUNCATION_MARKER.test(text)) return text;
+
+	const tailChars = Math.min(override?.tailChars ?? policy.tailChars, maxChars);
+	const head = text.slice(0, maxChars - tailChars);
+	const tail = tailChars > 0 ? text.slice(-tailChars) : "";
+	const marker = `...[truncated ${text.length - head.length - tail.length} of ${text.length} chars]...`;
+	return tail ? `${head}\n${marker}\n${tail}` : `${head}\n${marker}`;
+}
+
 const convertOrphanedOutputToMessage = (
 	item: InputItem,
 	callId: string | null,
+	policy: ToolOutputPolicy,
 ): InputItem => {
-	const toolName =
+	const name =
 		typeof (item as { name?: unknown }).name === "string"
 			? ((item as { name?: string }).name as string)
-			: "tool";
+			: undefined;
+	const toolName = name ?? "tool";
 	const labelCallId = callId ?? "unknown";
 	let text: string;
 	try {
@@ -136,9 +175,7 @@ const convertOrphanedOutputToMessage = (
 	} catch {
 		text = String((item as { output?: unknown }).output ?? "");
 	}
-	if (text.length > 16000) {
-		text = text.slice(0, 16000) + "\n...[truncated]";
-	}
+	text = truncateToolOutput(text, name, policy);
 	return {
 		type: "message",
 		role: "assistant",
@@ -172,8 +209,48 @@ const collectCallIds = (input: InputItem[]) => {
 	return { functionCallIds, localShellCallIds, customToolCallIds };
 };
 
+const TOOL_OUTPUT_TYPES = new Set([
+	"function_call_output",
+	"custom_tool_call_output",
+	"local_shell_call_output",
+]);
+
+/**
+ * Apply the truncation policy to every string tool output in the input.
+ * Outputs carry no tool name, so it is taken from the matching call.
+ * @param input - Input array
+ * @param policy - Truncation policy
+ * @returns Input array with oversized tool outputs truncated
+ */
+export const truncateToolOutputs = (
+	input: InputItem[],
+	policy: ToolOutputPolicy = DEFAULT_TOOL_OUTPUT_POLICY,
+): InputItem[] => {
+	const toolNames = new Map<string, string>();
+	for (const item of input) {
+		const callId = getCallId(item);
+		if (!callId) continue;
+		if (item.type === "local_shell_call") {
+			toolNames.set(callId, "local_shell");
+		} else if (typeof item.name === "string") {
+			toolNames.set(callId, item.name);
+		}
+	}
+
+	return input.map((item) => {
+		if (!TOOL_OUTPUT_TYPES.has(item.type) || typeof item.output !== "string") {
+			return item;
+		}
+		const callId = getCallId(item);
+		const toolName = (callId && toolNames.get(callId)) || undefined;
+		const output = truncateToolOutput(item.output, toolName, policy);
+		return output === item.output ? item : { ...item, output };
+	});
+};
+
 export const normalizeOrphanedToolOutputs = (
 	input: InputItem[],
+	policy: ToolOutputPolicy = DEFAULT_TOOL_OUTPUT_POLICY,
 ): InputItem[] => {
 	const { functionCallIds, localShellCallIds, customToolCallIds } =
 		collectCallIds(input);
@@ -185,7 +262,7 @@ export const normalizeOrphanedToolOutputs = (
 				!!callId &&
 				(functionCallIds.has(callId) || localShellCallIds.has(callId));
 			if (!hasMatch) {
-				return convertOrphanedOutputToMessage(item, callId);
+				return convertOrphanedOutputToMessage(item, callId, policy);
 			}
 		}
 
@@ -193,7 +270,7 @@ export const normalizeOrphanedToolOutputs = (
 			const callId = getCallId(item);
 			const hasMatch = !!callId && customToolCallIds.has(callId);
 			if (!hasMatch) {
-				return convertOrphanedOutputToMessage(item, callId);
+				return convertOrphanedOutputToMessage(item, callId, policy);
 			}
 		}
 
@@ -201,7 +278,7 @@ export const normalizeOrphanedToolOutputs = (
 			const callId = getCallId(item);
 			const hasMatch = !!callId && localShellCallIds.has(callId);
 			if (!hasMatch) {
-				return convertOrphanedOutputToMessage(item, callId);
+				return convertOrphanedOutputToMessage(item, callId, policy);
 			}
 		}
 
@@ -1,3 +1,5 @@
+import type { ModelAliasConfig } from "../../types.js";
+
 /**
  * Model Configuration Map
  *
@@ -120,6 +122,32 @@ export const MODEL_MAP: Record<string, string> = {
 	"gpt-5-nano": "gpt-5-nano",
 };
 
+/** User-defined aliases from plugin config, keyed by lower-case config ID */
+const modelAliases = new Map<string, ModelAliasConfig>();
+
+/**
+ * Replace the user-defined alias table (see `getModelAliases` in config.ts)
+ *
+ * @param aliases - Validated aliases keyed by config model ID
+ */
+export function registerModelAliases(aliases: Record<string, ModelAliasConfig>): void {
+	modelAliases.clear();
+	for (const [modelId, alias] of Object.entries(aliases)) {
+		modelAliases.set(modelId.toLowerCase(), alias);
+	}
+}
+
+/**
+ * Look up a user-defined alias
+ *
+ * @param modelId - Model ID from config, with or without "openai/" prefix
+ * @returns Alias with its default options, or undefined
+ */
+export function getModelAlias(modelId: string): ModelAliasConfig | undefined {
+	const id = modelId.includes("/") ? modelId.split("/").pop()! : modelId;
+	return modelAliases.get(id.toLowerCase());
+}
+
 /**
  * Get normalized model name from config ID
  *
@@ -128,6 +156,12 @@ export const MODEL_MAP: Record<string, string> = {
  */
 export function getNormalizedModel(modelId: string): string | undefined {
 	try {
+		// User-defined aliases win over the built-in map
+		const alias = getModelAlias(modelId);
+		if (alias) {
+			return alias.model;
+		}
+
 		// Try direct lookup first
 		if (MODEL_MAP[modelId]) {
 			return MODEL_MAP[modelId];
@@ -1,12 +1,16 @@
 import { logDebug, logWarn } from "../logger.js";
+import { getModelInfo, getReasoningLevels } from "../models.js";
+import type { ModelInfo } from "../models.js";
 import { TOOL_REMAP_MESSAGE } from "../prompts/codex.js";
 import { CODEX_OPENCODE_BRIDGE } from "../prompts/codex-opencode-bridge.js";
 import { getOpenCodeCodexPrompt } from "../prompts/opencode-codex.js";
-import { getNormalizedModel } from "./helpers/model-map.js";
+import { getModelAlias, getNormalizedModel } from "./helpers/model-map.js";
 import {
   filterOpenCodeSystemPromptsWithCachedPrompt,
   normalizeOrphanedToolOutputs,
+  truncateToolOutputs,
 } from "./helpers/input-utils.js";
+import type { ToolOutputPolicy } from "./helpers/input-utils.js";
 import type {
   ConfigOptions,
   InputItem,
@@ -152,7 +156,8 @@ export function normalizeModel(model: string | undefined): string {
 
 /**
  * Extract configuration for a specific model
- * Merges global options with model-specific options (model-specific takes precedence)
+ * Merges global options, user-defined alias defaults and model-specific options
+ * (model-specific takes precedence)
  * @param modelName - Model name (e.g., "gpt-5-codex")
  * @param userConfig - Full user configuration object
  * @returns Merged configuration for this model
@@ -163,9 +168,50 @@ export function getModelConfig(
 ): ConfigOptions {
   const globalOptions = userConfig.global || {};
   const modelOptions = userConfig.models?.[modelName]?.options || {};
+  const aliasOptions = getAliasOptions(modelName);
 
-  // Model-specific options override global options
-  return { ...globalOptions, ...modelOptions };
+  // Model-specific options override alias defaults, which override global options
+  return { ...globalOptions, ...aliasOptions, ...modelOptions };
+}
+
+function getAliasOptions(modelName: string): ConfigOptions {
+  const alias = getModelAlias(modelName);
+  if (!alias) return {};
+  const options: ConfigOptions = {};
+  if (alias.reasoningEffort) options.reasoningEffort = alias.reasoningEffort;
+  if (alias.reasoningSummary) options.reasoningSummary = alias.reasoningSummary;
+  if (alias.textVerbosity) options.textVerbosity = alias.textVerbosity;
+  return options;
+}
+
+/**
+ * Resolve a user-defined model alias in place: the API model replaces the
+ * config ID and the alias defaults fill in reasoning and verbosity settings
+ * the request does not already carry.
+ *
+ * @param body - Request body as sent by OpenCode
+ * @returns True if the body was changed
+ */
+export function applyModelAlias(body: RequestBody): boolean {
+  if (!body.model) return false;
+  const alias = getModelAlias(body.model);
+  if (!alias) return false;
+
+  body.model = alias.model;
+  if (alias.reasoningEffort || alias.reasoningSummary) {
+    const reasoning = { ...body.reasoning };
+    if (!reasoning.effort && alias.reasoningEffort) {
+      reasoning.effort = alias.reasoningEffort;
+    }
+    if (!reasoning.summary && alias.reasoningSummary) {
+      reasoning.summary = alias.reasoningSummary;
+    }
+    body.reasoning = reasoning;
+  }
+  if (alias.textVerbosity && !body.text?.verbosity) {
+    body.text = { ...body.text, verbosity: alias.textVerbosity };
+  }
+  return true;
 }
 
 function resolveReasoningConfig(
@@ -185,7 +231,7 @@ function resolveReasoningConfig(
     ...(existingSummary ? { reasoningSummary: existingSummary } : {}),
   };
 
-  return getReasoningConfig(modelName, mergedConfig);
+  return getReasoningConfig(modelName, mergedConfig, getModelInfo(modelName));
 }
 
 function resolveTextVerbosity(
@@ -216,6 +262,66 @@ function resolveInclude(
   return include;
 }
 
+/** Effort levels from least to most reasoning, for finding the nearest supported one */
+const EFFORT_ORDER: ReasoningConfig["effort"][] = [
+  "none",
+  "minimal",
+  "low",
+  "medium",
+  "high",
+  "xhigh",
+];
+
+/**
+ * Clamp an effort to the nearest level the model supports; on a tie the
+ * higher level wins, so a request never silently loses reasoning.
+ *
+ * @returns The effort to send, or undefined when no supported level is known
+ */
+function clampToSupportedEffort(
+  effort: ReasoningConfig["effort"],
+  supported: string[],
+): ReasoningConfig["effort"] | undefined {
+  const requested = EFFORT_ORDER.indexOf(effort);
+  let best: ReasoningConfig["effort"] | undefined;
+  let bestDistance = Infinity;
+  for (const level of EFFORT_ORDER) {
+    if (!supported.includes(level)) continue;
+    const distance = Math.abs(EFFORT_ORDER.indexOf(level) - requested);
+    if (distance <= bestDistance) {
+      best = level;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Clamp the request's reasoning effort in place to a level the backend says
+ * the model supports. Requests without an effort, or for models whose levels
+ * are not known yet, are left alone.
+ *
+ * @param body - Request body as sent by OpenCode
+ * @returns True if the body was changed
+ */
+export function clampReasoningEffort(body: RequestBody): boolean {
+  const requested = body.reasoning?.effort;
+  if (!requested || !body.model) return false;
+  const modelInfo = getModelInfo(normalizeModel(body.model));
+  if (!modelInfo) return false;
+
+  const supportedLevels = getReasoningLevels(modelInfo);
+  const effort = clampToSupportedEffort(requested, supportedLevels);
+  if (!effort || effort === requested) return false;
+
+  logDebug(
+    `Clamped reasoning effort "${requested}" to "${effort}" for ${modelInfo.slug}`,
+    { supportedLevels },
+  );
+  body.reasoning = { ...body.reasoning, effort };
+  return true;
+}
+
 /**
  * Configure reasoning parameters based on model variant and user config
  *
@@ -224,14 +330,40 @@ function resolveInclude(
  * - opencode explicitly excludes gpt-5-codex from automatic reasoning configuration
  * - Codex CLI has been thoroughly tested against this backend
  *
+ * When the backend's model metadata is known, its supported levels and default
+ * level take precedence over the name-based heuristics below.
+ *
  * @param originalModel - Original model name before normalization
  * @param userConfig - User configuration object
+ * @param modelInfo - Model metadata from the /models endpoint, if fetched
  * @returns Reasoning configuration
  */
 export function getReasoningConfig(
   modelName: string | undefined,
   userConfig: ConfigOptions = {},
+  modelInfo?: ModelInfo,
 ): ReasoningConfig {
+  const supportedLevels = modelInfo ? getReasoningLevels(modelInfo) : [];
+  if (supportedLevels.length > 0) {
+    const requested =
+      userConfig.reasoningEffort ||
+      (modelInfo?.default_reasoning_level as ReasoningConfig["effort"] | undefined) ||
+      "medium";
+    const effort = clampToSupportedEffort(requested, supportedLevels);
+    if (effort) {
+      if (effort !== requested) {
+        logDebug(
+          `Clamped reasoning effort "${requested}" to "${effort}" for ${modelInfo?.slug}`,
+          { supportedLevels },
+        );
+      }
+      return {
+        effort,
+        summary: userConfig.reasoningSummary || "auto",
+      };
+    }
+  }
+
   const normalizedName = modelName?.toLowerCase() ?? "";
 
   // GPT-5.2 Codex is the newest codex model (supports xhigh, but not "none")
@@ -288,7 +420,8 @@ export function getReasoningConfig(
         : "medium";
 
   // Get user-requested effort
-  let effort = userConfig.reasoningEffort || defaultEffort;
+  const requestedEffort = userConfig.reasoningEffort || defaultEffort;
+  let effort = requestedEffort;
 
   if (isCodexMini) {
     if (effort === "minimal" || effort === "low" || effort === "none") {
@@ -319,6 +452,12 @@ export function getReasoningConfig(
     effort = "low";
   }
 
+  if (effort !== requestedEffort) {
+    logDebug(
+      `Clamped reasoning effort "${requestedEffort}" to "${effort}" for ${modelName} (no model metadata)`,
+    );
+  }
+
   return {
     effort,
     summary: userConfig.reasoningSummary || "auto", // Changed from "detailed" to match Codex CLI
@@ -456,12 +595,15 @@ export function addToolRemapMessage(
  * @param body - Original request body
  * @param userConfig - User configuration from loader
  * @param codexMode - Enable CODEX_MODE (bridge prompt instead of tool remap) - defaults to true
+ * @param toolOutputPolicy - Size limits for tool outputs; without one, only orphaned
+ *   outputs turned into messages are capped (same as the runtime fetch path)
  * @returns Transformed request body
  */
 export async function transformRequestBody(
   body: RequestBody,
   userConfig: UserConfig = { global: {}, models: {} },
   codexMode = true,
+  toolOutputPolicy?: ToolOutputPolicy,
 ): Promise<RequestBody> {
   const originalModel = body.model;
   const normalizedModel = normalizeModel(body.model);
@@ -505,6 +647,9 @@ export async function transformRequestBody(
     }
 
     body.input = filterInput(body.input);
+    if (body.input && toolOutputPolicy) {
+      body.input = truncateToolOutputs(body.input, toolOutputPolicy);
+    }
 
     // Debug: Verify all IDs were removed
     const remainingIds = (body.input || [])
@@ -532,7 +677,7 @@ export async function transformRequestBody(
     // Instead of removing orphans (which causes infinite loops as LLM loses tool results),
     // convert them to messages to preserve context while avoiding API errors
     if (body.input) {
-      body.input = normalizeOrphanedToolOutputs(body.input);
+      body.input = normalizeOrphanedToolOutputs(body.input, toolOutputPolicy);
     }
   }
 
@@ -1,49 +1,21 @@
 import { logRequest, LOGGING_ENABLED } from "../logger.js";
-import type { SSEEventData } from "../types.js";
+import { createSseObserver, parseSseData, type SseEvent } from "./sse-parser.js";
 
 /**
- * Parse SSE stream to extract final response
- * @param sseText - Complete SSE stream text
- * @returns Final response object or null if not found
+ * Extract the final response from a `response.done`/`response.completed` event
+ * @param event - Parsed SSE event
+ * @returns Final response object or null if the event is not a final one
  */
-function parseSseStream(sseText: string): unknown | null {
-	const parsePayload = (payload: string): unknown | null => {
-		if (!payload || payload === '[DONE]') return null;
-		try {
-			const data = JSON.parse(payload) as SSEEventData;
-			if (data.type === 'response.done' || data.type === 'response.completed') {
-				return data.response;
-			}
-		} catch {
-			return null;
+function getFinalResponse(event: SseEvent): unknown | null {
+	// Some providers emit one JSON payload per data line without SSE blank-line delimiters,
+	// which the parser joins into a single multi-line event.
+	const payloads = [event.data, ...(event.data.includes('\n') ? event.data.split('\n') : [])];
+
+	for (const payload of payloads) {
+		const data = parseSseData(payload);
+		if (data?.type === 'response.done' || data?.type === 'response.completed') {
+			if (data.response) return data.response;
 		}
-		return null;
-	};
-
-	const events = sseText.replace(/\r\n/g, '\n').split('\n\n');
-
-	for (const eventBlock of events) {
-		const dataLines: string[] = [];
-
-		for (const line of eventBlock.split('\n')) {
-			if (!line.startsWith('data:')) continue;
-			const payload = line.slice(5);
-			dataLines.push(payload.startsWith(' ') ? payload.slice(1) : payload);
-		}
-
-		if (dataLines.length === 0) continue;
-
-		const payload = dataLines.join('\n').trim();
-		const parsed = parsePayload(payload);
-		if (parsed) return parsed;
-	}
-
-	// Some providers emit one JSON payload per data line without SSE blank-line delimiters.
-	for (const line of sseText.replace(/\r\n/g, '\n').split('\n')) {
-		if (!line.startsWith('data:')) continue;
-		const payload = line.slice(5).trimStart();
-		const parsed = parsePayload(payload);
-		if (parsed) return parsed;
 	}
 
 	return null;
@@ -59,28 +31,22 @@ export async function convertSseToJson(response: Response, headers: Headers): Pr
 	if (!response.body) {
 		throw new Error('[openai-codex-plugin] Response has no body');
 	}
-	const reader = response.body.getReader();
-	const decoder = new TextDecoder();
-	let fullText = '';
+	let finalResponse: unknown | null = null;
 
 	try {
-		// Consume the entire stream
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) break;
-			fullText += decoder.decode(value, { stream: true });
-		}
-
-		// Flush any buffered UTF-8 code units at stream end.
-		fullText += decoder.decode();
+		// Consume the entire stream, picking up the final response as it streams by.
+		// The raw text is kept for logging and for the fallback below.
+		const observed = response.body.pipeThrough(
+			createSseObserver((event) => {
+				finalResponse ??= getFinalResponse(event);
+			}),
+		);
+		const fullText = await new Response(observed).text();
 
 		if (LOGGING_ENABLED) {
 			logRequest("stream-full", { fullContent: fullText });
 		}
 
-		// Parse SSE events to extract the final response
-		const finalResponse = parseSseStream(fullText);
-
 		if (!finalResponse) {
 			console.error('[openai-codex-plugin] Could not find final response in SSE stream');
 			logRequest("stream-error", { error: "No response.done event found" });
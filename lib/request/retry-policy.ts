@@ -0,0 +1,103 @@
+/**
+ * Retry policy for transient failures that happen before a response stream
+ * is handed to OpenCode: 5xx gateway/server errors and network errors
+ * thrown by `fetch`. Nothing has been consumed at that point, so the request
+ * can be sent again as-is.
+ */
+
+export interface RetryPolicy {
+  /** Retries per request across all accounts; 0 disables retrying */
+  maxRetries: number;
+  /** Backoff before the first retry; doubled per retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retry on another available account instead of the one that failed */
+  failover: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  failover: true,
+};
+
+/**
+ * - `retryable`: transient server or network failure
+ * - `fatal`: client error, caller abort or anything else that would fail the same way again
+ */
+export type FailureClass = "retryable" | "fatal";
+
+/** Server-side statuses worth retrying; 429 is handled by rate-limit rotation instead. */
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/** Node/undici error codes for dropped or refused connections and DNS hiccups. */
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+export function classifyResponseStatus(status: number): FailureClass {
+  return RETRYABLE_STATUSES.has(status) ? "retryable" : "fatal";
+}
+
+/**
+ * Classify an error thrown by `fetch`. Aborts by the caller are never retried;
+ * undici reports network failures as `TypeError: fetch failed` with the
+ * system error as `cause`.
+ */
+export function classifyFetchError(
+  error: unknown,
+  signal?: AbortSignal | null,
+): FailureClass {
+  if (signal?.aborted) return "fatal";
+  if (!(error instanceof Error)) return "fatal";
+  if (error.name === "AbortError") return "fatal";
+  // Our own connect/first-byte timeouts: the backend or the route is stuck.
+  if (error.name === "TimeoutError") return "retryable";
+
+  const cause = (error as Error & { cause?: unknown }).cause;
+  const code =
+    (error as NodeJS.ErrnoException).code ??
+    (cause as NodeJS.ErrnoException | undefined)?.code;
+  if (code && RETRYABLE_ERROR_CODES.has(code)) return "retryable";
+
+  return error instanceof TypeError && error.message === "fetch failed"
+    ? "retryable"
+    : "fatal";
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): full jitter over
+ * `baseDelayMs * 2^attempt`, capped at `maxDelayMs`. A server-provided
+ * Retry-After is honoured when it fits under the cap.
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined && retryAfterMs >= 0 && retryAfterMs <= policy.maxDelayMs) {
+    return retryAfterMs;
+  }
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.min(attempt, 30),
+  );
+  return Math.round(random() * ceiling);
+}
+
+/** Parse a Retry-After header given in seconds; HTTP dates are ignored. */
+export function parseRetryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
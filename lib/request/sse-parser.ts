@@ -0,0 +1,157 @@
+import type { SSEEventData } from "../types.js";
+
+/**
+ * Incremental Server-Sent Events parser following the WHATWG event-stream
+ * format: `data:` lines are joined, `event:`, `id:` and `retry:` fields are
+ * tracked, comment lines are ignored, and lines may end in CRLF, LF or CR.
+ * Chunks may split lines or multi-byte UTF-8 characters anywhere.
+ */
+
+export interface SseEvent {
+  /** Event type from the `event:` field; "message" when not set */
+  event: string;
+  /** `data:` lines of the event joined with "\n" */
+  data: string;
+  /** Last event ID set in the stream so far */
+  id: string;
+  /** Reconnection time from the most recent valid `retry:` field, in ms */
+  retry?: number;
+}
+
+export interface SseParser {
+  /** Feed raw bytes; returns the events completed by this chunk */
+  push(chunk: Uint8Array): SseEvent[];
+  /**
+   * Signal the end of the stream. Unlike browsers, a final event without a
+   * trailing blank line is still dispatched, since some backends omit it.
+   */
+  end(): SseEvent[];
+}
+
+const LF = 10;
+const CR = 13;
+
+export function createSseParser(): SseParser {
+  const decoder = new TextDecoder();
+  /** Text of the line still being received */
+  let partialLine = "";
+  /** The previous chunk ended in CR, so a leading LF belongs to that line break */
+  let skipLineFeed = false;
+  let dataLines: string[] = [];
+  let eventType = "";
+  let lastEventId = "";
+  let retry: number | undefined;
+
+  const dispatch = (events: SseEvent[]) => {
+    if (dataLines.length > 0) {
+      const event: SseEvent = { event: eventType || "message", data: dataLines.join("\n"), id: lastEventId };
+      if (retry !== undefined) event.retry = retry;
+      events.push(event);
+    }
+    dataLines = [];
+    eventType = "";
+  };
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === "") {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        dataLines.push(value);
+        break;
+      case "event":
+        eventType = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  };
+
+  const feed = (text: string, events: SseEvent[]) => {
+    if (text === "") return;
+    let lineStart = 0;
+    if (skipLineFeed && text.charCodeAt(0) === LF) lineStart = 1;
+    skipLineFeed = false;
+
+    for (let index = lineStart; index < text.length; index++) {
+      const code = text.charCodeAt(index);
+      if (code !== LF && code !== CR) continue;
+
+      processLine(partialLine + text.slice(lineStart, index), events);
+      partialLine = "";
+      if (code === CR) {
+        if (index + 1 === text.length) skipLineFeed = true;
+        else if (text.charCodeAt(index + 1) === LF) index++;
+      }
+      lineStart = index + 1;
+    }
+    partialLine += text.slice(lineStart);
+  };
+
+  return {
+    push(chunk) {
+      const events: SseEvent[] = [];
+      feed(decoder.decode(chunk, { stream: true }), events);
+      return events;
+    },
+    end() {
+      const events: SseEvent[] = [];
+      feed(decoder.decode(), events);
+      if (partialLine !== "") processLine(partialLine, events);
+      partialLine = "";
+      dispatch(events);
+      return events;
+    },
+  };
+}
+
+/**
+ * Pass bytes through unchanged while calling `onEvent` for every SSE event
+ * as soon as it is complete. Errors thrown by `onEvent` fail the stream, so
+ * callers that only observe should catch their own.
+ */
+export function createSseObserver(
+  onEvent: (event: SseEvent) => void,
+): TransformStream<Uint8Array, Uint8Array> {
+  const parser = createSseParser();
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      for (const event of parser.push(chunk)) onEvent(event);
+    },
+    flush() {
+      for (const event of parser.end()) onEvent(event);
+    },
+  });
+}
+
+/**
+ * Parse the JSON payload of a Responses API event.
+ * @returns The payload, or null for `[DONE]`, invalid JSON or a missing `type`
+ */
+export function parseSseData(data: string): SSEEventData | null {
+  const payload = data.trim();
+  if (!payload || payload === "[DONE]") return null;
+  try {
+    const parsed = JSON.parse(payload) as SSEEventData | null;
+    return typeof parsed?.type === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
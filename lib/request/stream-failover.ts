@@ -0,0 +1,255 @@
+import { createSseParser, parseSseData, type SseEvent } from "./sse-parser.js";
+
+/**
+ * Failover for SSE response streams. Events are held back until the first
+ * output event arrives; if the stream breaks before that, nothing has reached
+ * OpenCode yet and the request can be re-issued on another account. Once
+ * output has been forwarded, a broken stream ends with a typed `error` event
+ * instead of a reset connection.
+ */
+
+export const STREAM_INTERRUPTED_CODE = "stream_interrupted";
+
+/** Error event in the shape of the Responses API `error` stream event */
+export interface StreamInterruptedEvent {
+  type: "error";
+  code: typeof STREAM_INTERRUPTED_CODE;
+  message: string;
+  param: null;
+  sequence_number: number;
+}
+
+export interface StreamFailoverOptions {
+  /**
+   * Send the request again (normally on another account). Resolves to the
+   * new response, or null when there is nothing left to fail over to.
+   */
+  reissue: (reason: string) => Promise<Response | null>;
+  /**
+   * Send the request again with compacted input after the backend reported a
+   * context overflow. Resolves to the new response, or null when nothing is
+   * left to compact.
+   */
+  compact?: (reason: string) => Promise<Response | null>;
+  /** Caller's abort signal; aborts are passed through, never failed over */
+  signal?: AbortSignal | null;
+}
+
+interface ScannedEvent {
+  type: string;
+  sequenceNumber?: number;
+  message?: string;
+  /** Error code (or type) of a failure event */
+  code?: string;
+}
+
+const COMPLETED_EVENTS = new Set([
+  "response.completed",
+  "response.done",
+  "response.incomplete",
+]);
+const FAILED_EVENTS = new Set(["response.failed", "error"]);
+/**
+ * Failure codes worth re-issuing on another account. Anything else (context
+ * overflow, invalid request, content policy) fails the same way everywhere.
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  "server_error",
+  "internal_error",
+  "overloaded",
+  "server_is_overloaded",
+  "service_unavailable",
+  "rate_limit_exceeded",
+  "rate_limit_error",
+]);
+/** Failure code of a request that exceeded the model's context window */
+const CONTEXT_OVERFLOW_CODE = "context_length_exceeded";
+
+function isOutputEvent(type: string): boolean {
+  return type.startsWith("response.output_") || type.startsWith("response.content_part.");
+}
+
+/** Splits raw chunks into SSE events and reads the fields failover cares about. */
+function createEventScanner() {
+  const parser = createSseParser();
+
+  const readEvent = (event: SseEvent): ScannedEvent | null => {
+    const parsed = parseSseData(event.data) as Record<string, any> | null;
+    if (!parsed) return null;
+    const error = parsed.response?.error ?? parsed.error;
+    const code = error?.code ?? error?.type ?? parsed.code;
+    return {
+      type: parsed.type,
+      sequenceNumber:
+        typeof parsed.sequence_number === "number" ? parsed.sequence_number : undefined,
+      message: error?.message ?? parsed.message,
+      code: typeof code === "string" ? code : undefined,
+    };
+  };
+
+  const readEvents = (events: SseEvent[]): ScannedEvent[] =>
+    events.map(readEvent).filter((event): event is ScannedEvent => event !== null);
+
+  return {
+    push: (chunk: Uint8Array): ScannedEvent[] => readEvents(parser.push(chunk)),
+    /** Events still buffered at the end of the stream, e.g. a final one without a blank line */
+    end: (): ScannedEvent[] => readEvents(parser.end()),
+  };
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function encodeInterruptedEvent(message: string, sequenceNumber: number): Uint8Array {
+  const event: StreamInterruptedEvent = {
+    type: "error",
+    code: STREAM_INTERRUPTED_CODE,
+    message,
+    param: null,
+    sequence_number: sequenceNumber,
+  };
+  return new TextEncoder().encode(`event: error\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Wrap an SSE response so that transient failures before the first output event are
+ * retried through `options.reissue` and context overflows through
+ * `options.compact`; later failures end the stream with a
+ * {@link StreamInterruptedEvent}. Non-SSE responses are returned as-is.
+ */
+export function withStreamFailover(
+  response: Response,
+  options: StreamFailoverOptions,
+): Response {
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!response.body || !contentType.includes("text/event-stream")) {
+    return response;
+  }
+
+  let reader = response.body.getReader();
+  let scan = createEventScanner();
+  /** Raw chunks held back until output starts */
+  let pending: Uint8Array[] = [];
+  let outputStarted = false;
+  let outcome: "open" | "completed" | "failed" = "open";
+  let failureMessage: string | undefined;
+  let failureCode: string | undefined;
+  let lastSequenceNumber = -1;
+
+  const flushPending = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    for (const chunk of pending) controller.enqueue(chunk);
+    pending = [];
+  };
+
+  const endWithError = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    message: string,
+  ) => {
+    flushPending(controller);
+    controller.enqueue(encodeInterruptedEvent(message, lastSequenceNumber + 1));
+    controller.close();
+  };
+
+  const observe = (events: ScannedEvent[]) => {
+    for (const event of events) {
+      if (event.sequenceNumber !== undefined) lastSequenceNumber = event.sequenceNumber;
+      if (isOutputEvent(event.type)) outputStarted = true;
+      if (COMPLETED_EVENTS.has(event.type)) outcome = "completed";
+      if (FAILED_EVENTS.has(event.type)) {
+        outcome = "failed";
+        failureMessage = event.message;
+        failureCode = event.code;
+      }
+    }
+  };
+
+  /** Switch to a re-issued response; false when none is available. */
+  const failover = async (
+    reason: string,
+    reissue: (reason: string) => Promise<Response | null> = options.reissue,
+  ): Promise<boolean> => {
+    await reader.cancel().catch(() => {});
+    if (options.signal?.aborted) return false;
+
+    const next = await reissue(reason).catch(() => null);
+    if (!next || !next.ok || !next.body) {
+      await next?.body?.cancel().catch(() => {});
+      return false;
+    }
+
+    reader = next.body.getReader();
+    scan = createEventScanner();
+    pending = [];
+    outcome = "open";
+    failureMessage = undefined;
+    failureCode = undefined;
+    lastSequenceNumber = -1;
+    return true;
+  };
+
+  /** Re-issue a failure seen before any output when its code allows it. */
+  const retryFailure = (): Promise<boolean> => {
+    const reason = failureMessage ?? "Response failed";
+    if (failureCode && TRANSIENT_ERROR_CODES.has(failureCode)) return failover(reason);
+    if (failureCode === CONTEXT_OVERFLOW_CODE && options.compact) return failover(reason, options.compact);
+    return Promise.resolve(false);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        let result: Awaited<ReturnType<typeof reader.read>>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (options.signal?.aborted || isAbortError(error)) {
+            controller.error(error);
+            return;
+          }
+          const message = `Stream interrupted: ${error instanceof Error ? error.message : String(error)}`;
+          if (!outputStarted && (await failover(message))) continue;
+          endWithError(controller, message);
+          return;
+        }
+
+        if (result.done) {
+          observe(scan.end());
+          if (outcome === "failed" && !outputStarted && (await retryFailure())) continue;
+          if (outcome === "open") {
+            const message = "Stream ended before the response completed";
+            if (!outputStarted && (await failover(message))) continue;
+            endWithError(controller, message);
+            return;
+          }
+          flushPending(controller);
+          controller.close();
+          return;
+        }
+
+        observe(scan.push(result.value));
+        pending.push(result.value);
+
+        if (outcome === "failed" && !outputStarted) {
+          if (await retryFailure()) continue;
+          // Deterministic failure or nothing to fail over to: pass the backend's own failure event on.
+          outputStarted = true;
+        }
+
+        if (outputStarted) {
+          flushPending(controller);
+          return;
+        }
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => {});
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
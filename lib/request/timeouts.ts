@@ -0,0 +1,193 @@
+/**
+ * Timeouts for outbound calls. Each kind of call gets three budgets:
+ *
+ * - `connectMs`: until the response headers arrive
+ * - `firstByteMs`: from the headers until the first body chunk
+ * - `idleMs`: between two body chunks
+ *
+ * Expired timers abort the request with a {@link TimeoutError}. The caller's
+ * own signal is linked in, so a user cancel aborts the call as well.
+ */
+
+export type OutboundCall = "responses" | "refresh" | "models" | "status";
+export type TimeoutPhase = "connect" | "first-byte" | "idle";
+
+export interface CallTimeouts {
+  connectMs: number;
+  firstByteMs: number;
+  idleMs: number;
+}
+
+export type TimeoutSettings = Record<OutboundCall, CallTimeouts>;
+
+/** 0 disables a timer. Responses get generous budgets: high-effort reasoning can stay silent for minutes. */
+export const DEFAULT_TIMEOUTS: TimeoutSettings = {
+  responses: { connectMs: 60 * 1000, firstByteMs: 5 * 60 * 1000, idleMs: 5 * 60 * 1000 },
+  refresh: { connectMs: 15 * 1000, firstByteMs: 15 * 1000, idleMs: 15 * 1000 },
+  models: { connectMs: 10 * 1000, firstByteMs: 10 * 1000, idleMs: 10 * 1000 },
+  status: { connectMs: 10 * 1000, firstByteMs: 10 * 1000, idleMs: 10 * 1000 },
+};
+
+const PHASE_ENV_NAMES: Record<keyof CallTimeouts, string> = {
+  connectMs: "CONNECT",
+  firstByteMs: "FIRST_BYTE",
+  idleMs: "IDLE",
+};
+
+export class TimeoutError extends Error {
+  constructor(
+    readonly call: OutboundCall,
+    readonly phase: TimeoutPhase,
+    readonly timeoutMs: number,
+  ) {
+    super(`${call} request timed out (${phase}, ${Math.round(timeoutMs / 1000)}s)`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Read overrides such as `OPENCODE_OPENAI_TIMEOUT_RESPONSES_IDLE_SECONDS=600`
+ * on top of the defaults.
+ */
+export function loadTimeoutSettings(env: NodeJS.ProcessEnv = process.env): TimeoutSettings {
+  const settings = {} as TimeoutSettings;
+  for (const call of Object.keys(DEFAULT_TIMEOUTS) as OutboundCall[]) {
+    const timeouts = { ...DEFAULT_TIMEOUTS[call] };
+    for (const key of Object.keys(PHASE_ENV_NAMES) as (keyof CallTimeouts)[]) {
+      const raw = env[`OPENCODE_OPENAI_TIMEOUT_${call.toUpperCase()}_${PHASE_ENV_NAMES[key]}_SECONDS`];
+      const seconds = Number(raw);
+      if (raw && !Number.isNaN(seconds)) {
+        timeouts[key] = Math.max(0, seconds) * 1000;
+      }
+    }
+    settings[call] = timeouts;
+  }
+  return settings;
+}
+
+let cachedSettings: TimeoutSettings | null = null;
+
+function getTimeouts(call: OutboundCall): CallTimeouts {
+  cachedSettings ??= loadTimeoutSettings();
+  return cachedSettings[call];
+}
+
+/** True for timeouts raised by {@link fetchWithTimeouts}, including the wrapped body. */
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
+
+/**
+ * Wrap a body so that it errors with a {@link TimeoutError} when the first
+ * chunk or any later chunk takes too long. `onSettled` runs once the body
+ * has ended, failed or been cancelled.
+ */
+function withBodyTimeouts(
+  body: ReadableStream<Uint8Array>,
+  call: OutboundCall,
+  timeouts: CallTimeouts,
+  abort: (error: TimeoutError) => void,
+  onSettled: () => void,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let receivedFirstChunk = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const phase: TimeoutPhase = receivedFirstChunk ? "idle" : "first-byte";
+      const timeoutMs = receivedFirstChunk ? timeouts.idleMs : timeouts.firstByteMs;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const timeout = new Promise<never>((_, reject) => {
+        if (timeoutMs <= 0) return;
+        timer = setTimeout(() => reject(new TimeoutError(call, phase, timeoutMs)), timeoutMs);
+      });
+
+      try {
+        const result = await Promise.race([reader.read(), timeout]);
+        if (result.done) {
+          onSettled();
+          controller.close();
+          return;
+        }
+        receivedFirstChunk = true;
+        controller.enqueue(result.value);
+      } catch (error) {
+        if (isTimeoutError(error)) {
+          abort(error);
+          reader.cancel(error).catch(() => {});
+        }
+        onSettled();
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    async cancel(reason) {
+      onSettled();
+      await reader.cancel(reason).catch(() => {});
+    },
+  });
+}
+
+/**
+ * `fetch` with the connect, first-byte and idle timeouts configured for
+ * `call`. `init.signal` stays in charge: aborting it aborts the request and
+ * the body, and rejects with the signal's reason rather than a timeout.
+ */
+export async function fetchWithTimeouts(
+  call: OutboundCall,
+  input: string | URL | Request,
+  init: RequestInit = {},
+): Promise<Response> {
+  const timeouts = getTimeouts(call);
+  const controller = new AbortController();
+  const parentSignal = init.signal;
+
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+  if (parentSignal?.aborted) {
+    onParentAbort();
+  } else {
+    parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  const connectTimer =
+    timeouts.connectMs > 0
+      ? setTimeout(
+          () => controller.abort(new TimeoutError(call, "connect", timeouts.connectMs)),
+          timeouts.connectMs,
+        )
+      : undefined;
+
+  let response: Response;
+  try {
+    response = await fetch(input, { ...init, signal: controller.signal });
+  } catch (error) {
+    parentSignal?.removeEventListener("abort", onParentAbort);
+    // undici rejects with the abort reason; normalise in case a runtime wraps it.
+    if (isTimeoutError(controller.signal.reason) && !parentSignal?.aborted) {
+      throw controller.signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(connectTimer);
+  }
+
+  if (!response.body) {
+    parentSignal?.removeEventListener("abort", onParentAbort);
+    return response;
+  }
+
+  const body = withBodyTimeouts(
+    response.body,
+    call,
+    timeouts,
+    (error) => controller.abort(error),
+    () => parentSignal?.removeEventListener("abort", onParentAbort),
+  );
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,80 @@
+import type { TokenUsage } from "../usage-ledger.js";
+import { createSseObserver, parseSseData, type SseEvent } from "./sse-parser.js";
+
+/**
+ * Reads the `usage` block of the final SSE event while the stream passes
+ * through untouched.
+ */
+
+export interface ObservedUsage {
+  usage: TokenUsage;
+  /** Model the backend reports for the response, if any */
+  model?: string;
+}
+
+const FINAL_EVENTS = new Set(["response.completed", "response.done", "response.incomplete"]);
+
+/** Responses API usage block: token details are optional depending on the model */
+interface RawUsage {
+  input_tokens?: number;
+  input_tokens_details?: { cached_tokens?: number };
+  output_tokens?: number;
+  output_tokens_details?: { reasoning_tokens?: number };
+}
+
+function toTokenUsage(raw: RawUsage): TokenUsage {
+  const count = (value: unknown) => (typeof value === "number" && value > 0 ? value : 0);
+  return {
+    inputTokens: count(raw.input_tokens),
+    cachedInputTokens: count(raw.input_tokens_details?.cached_tokens),
+    outputTokens: count(raw.output_tokens),
+    reasoningTokens: count(raw.output_tokens_details?.reasoning_tokens),
+  };
+}
+
+/**
+ * Extract usage from one SSE event, if it is a final response event.
+ */
+export function parseUsageEvent(event: SseEvent): ObservedUsage | null {
+  // Cheap pre-check: skip JSON parsing for the many delta events
+  if (!event.data.includes('"usage"')) return null;
+  const parsed = parseSseData(event.data) as { type: string; response?: { usage?: RawUsage; model?: string } } | null;
+  if (!parsed || !FINAL_EVENTS.has(parsed.type) || !parsed.response?.usage) return null;
+  return {
+    usage: toTokenUsage(parsed.response.usage),
+    model: typeof parsed.response.model === "string" ? parsed.response.model : undefined,
+  };
+}
+
+/**
+ * Pass an SSE response through unchanged and call `onUsage` once the final
+ * event with a usage block has streamed by. Non-SSE responses are returned as-is.
+ */
+export function withUsageTap(
+  response: Response,
+  onUsage: (observed: ObservedUsage) => void,
+): Response {
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!response.body || !contentType.includes("text/event-stream")) {
+    return response;
+  }
+
+  let reported = false;
+  const tap = createSseObserver((event) => {
+    if (reported) return;
+    const observed = parseUsageEvent(event);
+    if (!observed) return;
+    reported = true;
+    try {
+      onUsage(observed);
+    } catch {
+      // Accounting must never break the stream
+    }
+  });
+
+  return new Response(response.body.pipeThrough(tap), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
@@ -1,9 +1,26 @@
-import { chmodSync, existsSync, mkdirSync, renameSync, writeFileSync } from "node:fs";
+import {
+	chmodSync,
+	closeSync,
+	existsSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	renameSync,
+	statSync,
+	unlinkSync,
+	writeFileSync,
+	writeSync,
+} from "node:fs";
 import { dirname } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
 
 const DIR_MODE = 0o700;
 const FILE_MODE = 0o600;
 
+/** Locks older than this are considered abandoned by a crashed process. */
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+
 export function ensureSecureDir(path: string): void {
 	if (!existsSync(path)) {
 		mkdirSync(path, { recursive: true, mode: DIR_MODE });
@@ -38,3 +55,131 @@ export function writeJsonSecure(path: string, data: unknown): void {
 	renameSync(tempPath, path);
 	ensureSecureFile(path);
 }
+
+function sleepSync(ms: number): void {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+function isLockStale(lockPath: string, staleMs: number): boolean {
+	try {
+		if (Date.now() - statSync(lockPath).mtimeMs > staleMs) return true;
+		const owner = JSON.parse(readFileSync(lockPath, "utf8")) as { pid?: unknown };
+		return typeof owner.pid === "number" && owner.pid !== process.pid && !isProcessAlive(owner.pid);
+	} catch {
+		// Unreadable or half-written lock: only the age check above is trustworthy.
+		return false;
+	}
+}
+
+/**
+ * Try once to take the advisory lock guarding `path` (`<path>.lock`).
+ * Abandoned locks from crashed processes are broken automatically.
+ * @returns Release function, or null when another live process holds the lock
+ */
+export function tryAcquireFileLock(path: string, staleMs = LOCK_STALE_MS): (() => void) | null {
+	const lockPath = `${path}.lock`;
+	ensureSecureDir(dirname(path));
+
+	for (let attempt = 0; attempt < 2; attempt++) {
+		try {
+			const fd = openSync(lockPath, "wx", FILE_MODE);
+			try {
+				writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+			} finally {
+				closeSync(fd);
+			}
+			let released = false;
+			return () => {
+				if (released) return;
+				released = true;
+				try {
+					unlinkSync(lockPath);
+				} catch {
+					// Already removed (e.g. broken as stale); nothing to release.
+				}
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+			if (!isLockStale(lockPath, staleMs)) return null;
+			try {
+				unlinkSync(lockPath);
+			} catch {
+				// Another process broke the stale lock first; retry the create.
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Run `fn` while holding the advisory lock for `path`, waiting without
+ * blocking the event loop until it is free. A held lock is only taken over
+ * once it is stale (older than `staleMs` or owned by a dead process), so a
+ * wedged process delays writers by at most one stale period.
+ */
+export async function withFileLock<T>(path: string, fn: () => T, staleMs = LOCK_STALE_MS): Promise<T> {
+	let release = tryAcquireFileLock(path, staleMs);
+	while (!release) {
+		await sleep(LOCK_RETRY_MS);
+		release = tryAcquireFileLock(path, staleMs);
+	}
+
+	try {
+		return fn();
+	} finally {
+		release();
+	}
+}
+
+/**
+ * Blocking variant of {@link withFileLock} for `exit` handlers, where no
+ * asynchronous work can run anymore. Never use it on the request path.
+ */
+export function withFileLockSync<T>(path: string, fn: () => T, staleMs = LOCK_STALE_MS): T {
+	let release = tryAcquireFileLock(path, staleMs);
+	while (!release) {
+		sleepSync(LOCK_RETRY_MS);
+		release = tryAcquireFileLock(path, staleMs);
+	}
+
+	try {
+		return fn();
+	} finally {
+		release();
+	}
+}
+
+/**
+ * Parse a JSON file, returning null when it is missing or malformed.
+ */
+export function readJsonFile(path: string): unknown {
+	if (!existsSync(path)) return null;
+	try {
+		return JSON.parse(readFileSync(path, "utf8"));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read-merge-write under the file lock so concurrent processes never
+ * overwrite each other's changes with a stale in-memory copy.
+ * @param merge - Receives the current on-disk JSON (null if missing/malformed) and returns the data to write
+ * @returns The data that was written
+ */
+export function updateJsonSecure<T>(path: string, merge: (current: unknown) => T): Promise<T> {
+	return withFileLock(path, () => {
+		const next = merge(readJsonFile(path));
+		writeJsonSecure(path, next);
+		return next;
+	});
+}
@@ -1,13 +1,26 @@
 import { existsSync, readFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { ensureSecureFile, writeJsonSecure } from "./secure-file.js";
+import { ensureSecureFile, updateJsonSecure } from "./secure-file.js";
+import { StorageMigrationError, assertSupportedVersion, migrateStorage } from "./storage-migrations.js";
+import type { VersionedStorage } from "./storage-migrations.js";
+
+const SESSION_BINDINGS_VERSION = 2;
 
 interface PersistedSessionBindings {
-	version: 1;
+	version: 2;
+	bindings: Record<string, string>;
+}
+
+/** Version 1 files bound sessions to account array indices. */
+interface LegacySessionBindings {
+	version?: 1;
 	bindings: Record<string, number>;
 }
 
+/** Maps a legacy account index to the stable account ID now at that position. */
+export type LegacyAccountIndexResolver = (index: number) => string | undefined;
+
 export const DEFAULT_SESSION_BINDINGS_FILE = join(
 	homedir(),
 	".config",
@@ -15,52 +28,120 @@ export const DEFAULT_SESSION_BINDINGS_FILE = join(
 	"openai-multi-auth-session-bindings.json",
 );
 
+function getSessionBindingsStorage(resolveLegacyIndex?: LegacyAccountIndexResolver): VersionedStorage {
+	return {
+		name: "session bindings file",
+		currentVersion: SESSION_BINDINGS_VERSION,
+		migrations: [
+			{
+				// Index -> account ID. Sessions whose index cannot be resolved are
+				// dropped so they get a fresh binding instead of a wrong account.
+				from: 1,
+				migrate: (data) => {
+					const bindings: Record<string, string> = {};
+					const legacy = (data as Partial<LegacySessionBindings>).bindings ?? {};
+					for (const [sessionKey, accountIndex] of Object.entries(legacy)) {
+						if (!sessionKey) continue;
+						if (!Number.isInteger(accountIndex) || accountIndex < 0) continue;
+						const accountId = resolveLegacyIndex?.(accountIndex);
+						if (accountId) bindings[sessionKey] = accountId;
+					}
+					return { bindings };
+				},
+			},
+		],
+	};
+}
+
 export class SessionBindingStore {
-	private readonly bindings = new Map<string, number>();
+	private readonly bindings = new Map<string, string>();
+	/** Local changes not yet written; other keys follow whatever is on disk. */
+	private readonly pending = new Map<string, string | null>();
 
 	constructor(private readonly filePath = DEFAULT_SESSION_BINDINGS_FILE) {}
 
-	loadFromDisk(): void {
+	async loadFromDisk(resolveLegacyIndex?: LegacyAccountIndexResolver): Promise<void> {
 		if (!existsSync(this.filePath)) return;
 		ensureSecureFile(this.filePath);
 
 		try {
 			const raw = readFileSync(this.filePath, "utf8");
-			const parsed = JSON.parse(raw) as Partial<PersistedSessionBindings>;
-			const loaded = parsed?.bindings;
+			const { data, migrated } = migrateStorage(
+				this.filePath,
+				JSON.parse(raw),
+				getSessionBindingsStorage(resolveLegacyIndex),
+			);
+			const loaded = (data as Partial<PersistedSessionBindings>).bindings;
 			if (!loaded || typeof loaded !== "object") return;
 
-			for (const [sessionKey, accountIndex] of Object.entries(loaded)) {
+			for (const [sessionKey, accountId] of Object.entries(loaded)) {
 				if (!sessionKey) continue;
-				if (!Number.isInteger(accountIndex) || accountIndex < 0) continue;
-				this.bindings.set(sessionKey, accountIndex);
+				if (typeof accountId !== "string" || !accountId) continue;
+				this.bindings.set(sessionKey, accountId);
+				if (migrated) this.pending.set(sessionKey, accountId);
 			}
-		} catch {
-			// Ignore malformed files; plugin continues with in-memory map.
+			if (migrated) await this.saveToDisk();
+		} catch (error) {
+			// Bindings are disposable: log and continue with an in-memory map.
+			// Saving re-checks the version, so a newer file is never overwritten.
+			if (error instanceof StorageMigrationError) console.error(error.message);
 		}
 	}
 
-	get(sessionKey: string): number | undefined {
+	get(sessionKey: string): string | undefined {
 		return this.bindings.get(sessionKey);
 	}
 
-	set(sessionKey: string, accountIndex: number): void {
-		this.bindings.set(sessionKey, accountIndex);
-		this.saveToDisk();
+	/** Bind a session; the returned promise settles once the binding is written. */
+	set(sessionKey: string, accountId: string): Promise<void> {
+		this.bindings.set(sessionKey, accountId);
+		this.pending.set(sessionKey, accountId);
+		return this.saveToDisk();
 	}
 
-	delete(sessionKey: string): void {
-		if (!this.bindings.delete(sessionKey)) return;
-		this.saveToDisk();
+	/** Unbind a session; the returned promise settles once the change is written. */
+	delete(sessionKey: string): Promise<void> {
+		if (!this.bindings.delete(sessionKey)) return Promise.resolve();
+		this.pending.set(sessionKey, null);
+		return this.saveToDisk();
 	}
 
-	private saveToDisk(): void {
+	/**
+	 * Apply local changes on top of the current file under a lock, so bindings
+	 * written by other OpenCode processes in the meantime are kept.
+	 */
+	private async saveToDisk(): Promise<void> {
+		// Only the changes this write included are cleared; later ones stay pending
+		let written = new Map<string, string | null>();
 		try {
-			const payload: PersistedSessionBindings = {
-				version: 1,
-				bindings: Object.fromEntries(this.bindings.entries()),
-			};
-			writeJsonSecure(this.filePath, payload);
+			await updateJsonSecure(this.filePath, (current): PersistedSessionBindings => {
+				const disk = current as Partial<PersistedSessionBindings> | null;
+				const merged = new Map<string, string>();
+				// Never overwrite a file from a newer plugin; anything else unreadable is replaced.
+				if (Number(disk?.version) > SESSION_BINDINGS_VERSION) {
+					assertSupportedVersion(this.filePath, disk, getSessionBindingsStorage());
+				}
+				if (disk?.version === SESSION_BINDINGS_VERSION && disk.bindings && typeof disk.bindings === "object") {
+					for (const [sessionKey, accountId] of Object.entries(disk.bindings)) {
+						if (typeof accountId === "string" && accountId) merged.set(sessionKey, accountId);
+					}
+				} else {
+					for (const [sessionKey, accountId] of this.bindings) merged.set(sessionKey, accountId);
+				}
+
+				written = new Map(this.pending);
+				for (const [sessionKey, accountId] of written) {
+					if (accountId === null) merged.delete(sessionKey);
+					else merged.set(sessionKey, accountId);
+				}
+
+				this.bindings.clear();
+				for (const [sessionKey, accountId] of merged) this.bindings.set(sessionKey, accountId);
+				return { version: SESSION_BINDINGS_VERSION, bindings: Object.fromEntries(merged) };
+			});
+			for (const [sessionKey, accountId] of written) {
+				if (this.pending.get(sessionKey) === accountId) this.pending.delete(sessionKey);
+			}
 		} catch {
 			// Persistence failure should not break request handling.
 		}
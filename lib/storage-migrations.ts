@@ -0,0 +1,114 @@
+import { existsSync } from "node:fs";
+import { writeJsonSecure } from "./secure-file.js";
+
+type StorageData = Record<string, unknown>;
+
+export interface StorageMigration {
+	/** Version this step upgrades from; it produces version `from + 1`. */
+	from: number;
+	migrate: (data: StorageData) => StorageData;
+}
+
+export interface VersionedStorage {
+	/** Human-readable name used in error messages, e.g. "accounts file" */
+	name: string;
+	currentVersion: number;
+	migrations: StorageMigration[];
+	/**
+	 * Version of a payload. Defaults to its numeric `version` field; override
+	 * for formats that predate versioning.
+	 */
+	readVersion?: (data: unknown) => number | undefined;
+}
+
+/**
+ * A storage file could not be read or upgraded. Carries the path so the
+ * message tells the user exactly which file to inspect or restore.
+ */
+export class StorageMigrationError extends Error {
+	constructor(
+		message: string,
+		readonly filePath: string,
+	) {
+		super(`[openai-multi-auth] ${message} (${filePath})`);
+		this.name = "StorageMigrationError";
+	}
+}
+
+function readDefaultVersion(data: unknown): number | undefined {
+	if (!data || typeof data !== "object" || Array.isArray(data)) return undefined;
+	const version = (data as StorageData).version;
+	return Number.isInteger(version) ? (version as number) : undefined;
+}
+
+export function getStorageVersion(storage: VersionedStorage, data: unknown): number | undefined {
+	return (storage.readVersion ?? readDefaultVersion)(data);
+}
+
+/** Path of the backup written before migrating away from `version`. */
+export function getMigrationBackupPath(filePath: string, version: number): string {
+	return `${filePath}.v${version}.bak`;
+}
+
+/**
+ * Throw unless `data` is a version this build can read (current or older).
+ * Used before writing, so a file from a newer plugin is never clobbered.
+ */
+export function assertSupportedVersion(
+	filePath: string,
+	data: unknown,
+	storage: VersionedStorage,
+): number {
+	const version = getStorageVersion(storage, data);
+	if (version === undefined) {
+		throw new StorageMigrationError(`Unrecognized ${storage.name} format`, filePath);
+	}
+	if (version > storage.currentVersion) {
+		throw new StorageMigrationError(
+			`${storage.name} is version ${version}, but this plugin only supports up to version ${storage.currentVersion}; update the plugin`,
+			filePath,
+		);
+	}
+	return version;
+}
+
+/**
+ * Upgrade parsed file contents to the current version one step at a time.
+ * Before each step the pre-migration data is written to
+ * `<file>.v<version>.bak` (if the file exists), so a bad migration can be
+ * rolled back by hand.
+ */
+export function migrateStorage(
+	filePath: string,
+	data: unknown,
+	storage: VersionedStorage,
+): { data: StorageData; migrated: boolean } {
+	let version = assertSupportedVersion(filePath, data, storage);
+	let current = data as StorageData;
+	const migrated = version < storage.currentVersion;
+
+	while (version < storage.currentVersion) {
+		const step = storage.migrations.find((migration) => migration.from === version);
+		if (!step) {
+			throw new StorageMigrationError(
+				`No migration for ${storage.name} from version ${version}`,
+				filePath,
+			);
+		}
+
+		if (existsSync(filePath)) {
+			writeJsonSecure(getMigrationBackupPath(filePath, version), current);
+		}
+		try {
+			current = { ...step.migrate(current), version: version + 1 };
+		} catch (error) {
+			throw new StorageMigrationError(
+				`Migrating ${storage.name} from version ${version} failed: ${String(error)}`,
+				filePath,
+			);
+		}
+		version++;
+	}
+
+	return { data: current, migrated };
+}
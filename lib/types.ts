@@ -9,6 +9,95 @@ export interface PluginConfig {
 	 * @default true
 	 */
 	codexMode?: boolean;
+
+	/**
+	 * Model fallback chains; replace the built-in chains when set
+	 * @default one chain per entry of MODEL_FALLBACKS
+	 */
+	fallbackChains?: FallbackChainConfig[];
+
+	/**
+	 * Extra config model IDs, layered on top of the built-in MODEL_MAP
+	 * @example { "gpt-5.4-codex-high": { "model": "gpt-5.4-codex", "reasoningEffort": "high" } }
+	 */
+	modelAliases?: Record<string, ModelAliasConfig>;
+
+	/**
+	 * How to shrink the input and retry when a request exceeds the model's context window
+	 * @default { "strategy": "summarize", "preserveRecentItems": 8, "maxAttempts": 2 }
+	 */
+	contextCompaction?: ContextCompactionConfig;
+
+	/**
+	 * Size limits for tool outputs sent back to the model
+	 * @example { "maxChars": 16000, "tools": { "read": { "maxChars": 60000 }, "bash": { "tailChars": 4000 } } }
+	 */
+	toolOutputTruncation?: ToolOutputTruncationConfig;
+}
+
+/**
+ * Tool-output truncation limits; outputs over `maxChars` keep their first
+ * `maxChars - tailChars` and last `tailChars` characters around a marker
+ */
+export interface ToolOutputLimits {
+	/** Longest output kept as is; 0 disables truncation */
+	maxChars?: number;
+	/** Characters kept from the end of a truncated output */
+	tailChars?: number;
+}
+
+export interface ToolOutputTruncationConfig extends ToolOutputLimits {
+	/** Per-tool overrides, keyed by tool name (e.g. "read", "bash") */
+	tools?: Record<string, ToolOutputLimits>;
+}
+
+/**
+ * Context-overflow recovery settings
+ */
+export interface ContextCompactionConfig {
+	/**
+	 * - "summarize": replace old tool outputs with a short excerpt, drop old reasoning items
+	 * - "drop": remove old tool calls with their outputs, and old reasoning items
+	 * - "off": pass the context-length error through
+	 */
+	strategy?: "summarize" | "drop" | "off";
+	/** Most recent input items that are never compacted */
+	preserveRecentItems?: number;
+	/** Compaction retries per request */
+	maxAttempts?: number;
+}
+
+/**
+ * A config model ID that resolves to an API model plus default options.
+ * Options set in opencode.json or on the request still take precedence.
+ */
+export interface ModelAliasConfig {
+	/** API model name sent to the backend */
+	model: string;
+	reasoningEffort?: ConfigOptions["reasoningEffort"];
+	reasoningSummary?: ConfigOptions["reasoningSummary"];
+	textVerbosity?: ConfigOptions["textVerbosity"];
+}
+
+/**
+ * Models to try in order when one is unavailable,
+ * e.g. `["gpt-5.3-codex", "gpt-5.2-codex", "gpt-5.1-codex"]`
+ */
+export interface FallbackChainConfig {
+	models: string[];
+
+	/**
+	 * Also fall back when every account is rate limited for a model
+	 * and the request cannot wait for the reset
+	 * @default false
+	 */
+	onRateLimit?: boolean;
+
+	/**
+	 * Toast on fallback: every time, once per model pair, or never
+	 * @default "once"
+	 */
+	notify?: "always" | "once" | "never";
 }
 
 /**
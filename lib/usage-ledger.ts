@@ -0,0 +1,285 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { readJsonFile, tryAcquireFileLock, withFileLockSync, writeJsonSecure } from "./secure-file.js";
+
+const USAGE_LEDGER_VERSION = 1;
+
+/** Daily buckets older than this many days are pruned when the ledger is written. */
+export const USAGE_RETENTION_DAYS = 30;
+
+/** Recorded usage is buffered this long before it is written out. */
+const FLUSH_DELAY_MS = 2_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_USAGE_LEDGER_FILE = join(
+	homedir(),
+	".config",
+	"opencode",
+	"openai-multi-auth-usage.json",
+);
+
+/** Token counts from the `usage` block of a completed response */
+export interface TokenUsage {
+	inputTokens: number;
+	cachedInputTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+	requests: number;
+}
+
+/** Usage of one account, model and session */
+export interface UsageEntry {
+	accountId: string;
+	model: string;
+	/** OpenCode session (prompt cache key); empty when the request had none */
+	sessionKey: string;
+	/** Totals per UTC day, keyed by date ("2026-10-19") */
+	days: Record<string, UsageTotals>;
+	firstAt: number;
+	lastAt: number;
+}
+
+export type UsageGrouping = "account" | "model" | "session";
+
+interface PersistedUsageLedger {
+	version: 1;
+	entries: UsageEntry[];
+}
+
+const TOKEN_FIELDS = ["inputTokens", "cachedInputTokens", "outputTokens", "reasoningTokens"] as const;
+
+export function emptyUsageTotals(): UsageTotals {
+	return { requests: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+	target.requests += source.requests;
+	for (const field of TOKEN_FIELDS) target[field] += source[field];
+}
+
+function dayKey(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/** First day key inside a window of `days` calendar days ending today */
+function firstDayOf(days: number, now: number): string {
+	return dayKey(now - (Math.max(1, days) - 1) * DAY_MS);
+}
+
+function entryKey(entry: Pick<UsageEntry, "accountId" | "model" | "sessionKey">): string {
+	return JSON.stringify([entry.accountId, entry.model, entry.sessionKey]);
+}
+
+function isUsageTotals(value: unknown): value is UsageTotals {
+	const totals = value as Partial<UsageTotals> | null;
+	return typeof totals?.requests === "number" && TOKEN_FIELDS.every((field) => typeof totals[field] === "number");
+}
+
+function isUsageEntry(value: unknown): value is UsageEntry {
+	const entry = value as Partial<UsageEntry> | null;
+	return (
+		typeof entry?.accountId === "string" &&
+		typeof entry.model === "string" &&
+		typeof entry.sessionKey === "string" &&
+		typeof entry.days === "object" &&
+		entry.days !== null &&
+		Object.values(entry.days).every(isUsageTotals)
+	);
+}
+
+function cloneEntry(entry: UsageEntry): UsageEntry {
+	const days: Record<string, UsageTotals> = {};
+	for (const [day, totals] of Object.entries(entry.days)) days[day] = { ...totals };
+	return { ...entry, days };
+}
+
+/**
+ * Add buffered deltas to the stored entries and drop days past the retention window.
+ */
+function mergeEntries(stored: UsageEntry[], deltas: Iterable<UsageEntry>, now: number): UsageEntry[] {
+	const entries = new Map<string, UsageEntry>();
+	for (const entry of stored) entries.set(entryKey(entry), cloneEntry(entry));
+
+	for (const delta of deltas) {
+		const existing = entries.get(entryKey(delta));
+		if (!existing) {
+			entries.set(entryKey(delta), cloneEntry(delta));
+			continue;
+		}
+		for (const [day, totals] of Object.entries(delta.days)) {
+			existing.days[day] ??= emptyUsageTotals();
+			addTotals(existing.days[day], totals);
+		}
+		existing.firstAt = Math.min(existing.firstAt, delta.firstAt);
+		existing.lastAt = Math.max(existing.lastAt, delta.lastAt);
+	}
+
+	const oldestDay = firstDayOf(USAGE_RETENTION_DAYS, now);
+	const kept: UsageEntry[] = [];
+	for (const entry of entries.values()) {
+		for (const day of Object.keys(entry.days)) {
+			if (day < oldestDay) delete entry.days[day];
+		}
+		if (Object.keys(entry.days).length > 0) kept.push(entry);
+	}
+	return kept;
+}
+
+/**
+ * Token usage per account, model and session, kept in a local JSON file with
+ * one bucket per day. Recorded usage is buffered in memory and written a
+ * moment later, so recording never blocks a response stream; each OpenCode
+ * process adds its own deltas to the file under a lock, so concurrent
+ * processes never lose each other's counts.
+ */
+export class UsageLedger {
+	/** Usage recorded but not yet written, by entry key */
+	private pending = new Map<string, UsageEntry>();
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+	private exitHookInstalled = false;
+
+	constructor(
+		private readonly filePath = DEFAULT_USAGE_LEDGER_FILE,
+		private readonly flushDelayMs = FLUSH_DELAY_MS,
+	) {}
+
+	record(
+		accountId: string,
+		model: string,
+		sessionKey: string | undefined,
+		usage: TokenUsage,
+		now = Date.now(),
+	): void {
+		const delta: UsageEntry = {
+			accountId,
+			model,
+			sessionKey: sessionKey ?? "",
+			days: { [dayKey(now)]: { requests: 1, ...usage } },
+			firstAt: now,
+			lastAt: now,
+		};
+		const key = entryKey(delta);
+		const buffered = this.pending.get(key);
+		const [merged] = mergeEntries(buffered ? [buffered] : [], [delta], now);
+		if (merged) this.pending.set(key, merged);
+		this.scheduleFlush();
+	}
+
+	/**
+	 * Write buffered usage to the file.
+	 * @param wait - Block until the file lock is free (exit handler only); otherwise give up when it is taken
+	 * @returns false when the lock was taken and the usage is still buffered
+	 */
+	flush(wait = false): boolean {
+		if (this.pending.size === 0) return true;
+
+		const write = () => {
+			const deltas = [...this.pending.values()];
+			this.pending.clear();
+			try {
+				const ledger: PersistedUsageLedger = {
+					version: USAGE_LEDGER_VERSION,
+					entries: mergeEntries(this.readEntries(readJsonFile(this.filePath)), deltas, Date.now()),
+				};
+				writeJsonSecure(this.filePath, ledger);
+			} catch {
+				// Accounting must never break request handling.
+			}
+		};
+
+		try {
+			if (wait) {
+				withFileLockSync(this.filePath, write);
+				return true;
+			}
+			const release = tryAcquireFileLock(this.filePath);
+			if (!release) return false;
+			try {
+				write();
+			} finally {
+				release();
+			}
+		} catch {
+			this.pending.clear();
+		}
+		return true;
+	}
+
+	/** Stored and buffered entries */
+	getEntries(now = Date.now()): UsageEntry[] {
+		return mergeEntries(this.readEntries(readJsonFile(this.filePath)), this.pending.values(), now);
+	}
+
+	/**
+	 * Sum the ledger by account, model or session
+	 * @param days - Only count the last N calendar days (UTC), today included
+	 * @returns Totals per group key, largest input first
+	 */
+	summarize(
+		by: UsageGrouping,
+		days = USAGE_RETENTION_DAYS,
+		now = Date.now(),
+	): Array<{ key: string; totals: UsageTotals }> {
+		const firstDay = firstDayOf(days, now);
+		const groups = new Map<string, UsageTotals>();
+		for (const entry of this.getEntries(now)) {
+			const key = by === "account" ? entry.accountId : by === "model" ? entry.model : entry.sessionKey;
+			const totals = groups.get(key) ?? emptyUsageTotals();
+			for (const [day, dayTotals] of Object.entries(entry.days)) {
+				if (day >= firstDay) addTotals(totals, dayTotals);
+			}
+			if (totals.requests > 0) groups.set(key, totals);
+		}
+		return [...groups.entries()]
+			.map(([key, totals]) => ({ key, totals }))
+			.sort((a, b) => b.totals.inputTokens - a.totals.inputTokens);
+	}
+
+	getAccountTotals(accountId: string): UsageTotals {
+		const totals = emptyUsageTotals();
+		for (const entry of this.getEntries()) {
+			if (entry.accountId !== accountId) continue;
+			for (const dayTotals of Object.values(entry.days)) addTotals(totals, dayTotals);
+		}
+		return totals;
+	}
+
+	private scheduleFlush(): void {
+		if (!this.exitHookInstalled) {
+			this.exitHookInstalled = true;
+			process.once("exit", () => this.flush(true));
+		}
+		if (this.flushTimer) return;
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = null;
+			if (!this.flush()) this.scheduleFlush();
+		}, this.flushDelayMs);
+		this.flushTimer.unref?.();
+	}
+
+	private readEntries(data: unknown): UsageEntry[] {
+		const ledger = data as Partial<PersistedUsageLedger> | null;
+		if (ledger?.version !== USAGE_LEDGER_VERSION || !Array.isArray(ledger.entries)) return [];
+		return ledger.entries.filter(isUsageEntry);
+	}
+}
+
+/** Compact token count for status output: 950, 12.3k, 4.5M */
+export function formatTokenCount(count: number): string {
+	if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+	if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+	return String(count);
+}
+
+/** One-line summary: "1.2M in (800.0k cached), 45.0k out (12.0k reasoning), 37 requests" */
+export function formatUsageTotals(totals: UsageTotals): string {
+	return [
+		`${formatTokenCount(totals.inputTokens)} in (${formatTokenCount(totals.cachedInputTokens)} cached)`,
+		`${formatTokenCount(totals.outputTokens)} out (${formatTokenCount(totals.reasoningTokens)} reasoning)`,
+		`${totals.requests} request${totals.requests === 1 ? "" : "s"}`,
+	].join(", ");
+}
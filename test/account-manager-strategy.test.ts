@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { mkdtempSync, statSync } from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, statSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
  
@@ -7,21 +7,26 @@ const originalHome = process.env.HOME;
 
 async function createManager(
   home: string,
-  strategy: "sticky" | "round-robin" | "hybrid",
+  strategy: "sticky" | "round-robin" | "hybrid" | "headroom",
+  overrides: Record<string, unknown> = {},
 ) {
   process.env.HOME = home;
+  process.env.OPENCODE_OPENAI_CACHE_DIR = join(home, "cache");
   vi.resetModules();
   const { AccountManager } = await import("../lib/accounts/manager.js");
   return new AccountManager({
     accountSelectionStrategy: strategy,
     quietMode: true,
     debug: false,
+    ...overrides,
   });
 }
 
 describe("AccountManager strategy selection", () => {
   afterEach(() => {
     process.env.HOME = originalHome;
+    delete process.env.OPENCODE_OPENAI_CACHE_DIR;
+    vi.restoreAllMocks();
   });
 
   it("keeps using the same account in sticky mode", async () => {
@@ -101,6 +106,32 @@ describe("AccountManager strategy selection", () => {
     expect(third?.index).toBe(1);
   });
 
+  it("reports when the earliest rate-limited account becomes available", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-earliest-reset-"));
+    const manager = await createManager(home, "sticky", { removeOnInvalidGrant: false });
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    const c = await manager.addAccount("c@example.com", "rt-3");
+    const model = "gpt-5.2-codex";
+
+    expect(manager.getEarliestAvailableTime(model)).toBeNull();
+
+    const now = Date.now();
+    manager.markRateLimited(a, 120_000, model);
+    manager.markRateLimited(b, 60_000, model);
+    await manager.markRefreshFailed(c, "Token invalid: invalid_grant. Please re-authenticate.");
+
+    const availableAt = manager.getEarliestAvailableTime(model, now);
+    expect(availableAt).toBe(b.rateLimitResets[model]);
+    expect(manager.isAccountUsable(b, model)).toBe(false);
+    expect(manager.getEarliestAvailableTime("gpt-5.1", now)).toBeNull();
+    expect(manager.getEarliestAvailableTime(model, availableAt! + 1)).toBeNull();
+
+    manager.markRateLimited(b, 180_000);
+    expect(manager.getEarliestAvailableTime(model, availableAt! + 1)).toBe(a.rateLimitResets[model]);
+  });
+
   it("skips rate-limited accounts and keeps round-robin progression", async () => {
     const home = mkdtempSync(join(tmpdir(), "strategy-rr-failover-"));
     const manager = await createManager(home, "round-robin");
@@ -171,4 +202,669 @@ describe("AccountManager strategy selection", () => {
     const mode = statSync(filePath).mode & 0o777;
     expect(mode).toBe(0o600);
   });
+
+  it("picks the account with the most remaining quota in headroom mode", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-headroom-"));
+    const manager = await createManager(home, "headroom");
+    const { codexStatus } = await import("../lib/codex-status.js");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    const c = await manager.addAccount("c@example.com", "rt-3");
+
+    await codexStatus.updateFromHeaders(a, {
+      "x-codex-primary-used-percent": "80",
+      "x-codex-secondary-used-percent": "10",
+    });
+    await codexStatus.updateFromHeaders(b, {
+      "x-codex-primary-used-percent": "20",
+      "x-codex-secondary-used-percent": "30",
+    });
+    await codexStatus.updateFromHeaders(c, {
+      "x-codex-primary-used-percent": "5",
+      "x-codex-secondary-used-percent": "95",
+    });
+
+    const pick = await manager.getNextAvailableAccountForNewSession();
+    expect(pick?.index).toBe(1);
+  });
+
+  it("prefers an account whose window resets soonest in headroom mode", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-headroom-reset-"));
+    const manager = await createManager(home, "headroom");
+    const { codexStatus } = await import("../lib/codex-status.js");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    await codexStatus.updateFromHeaders(a, {
+      "x-codex-primary-used-percent": "50",
+      "x-codex-primary-window-minutes": "300",
+      "x-codex-primary-reset-at": String(nowSeconds + 4 * 60 * 60),
+    });
+    await codexStatus.updateFromHeaders(b, {
+      "x-codex-primary-used-percent": "60",
+      "x-codex-primary-window-minutes": "300",
+      "x-codex-primary-reset-at": String(nowSeconds + 10 * 60),
+    });
+
+    const pick = await manager.getNextAvailableAccount();
+    expect(pick?.index).toBe(1);
+  });
+
+  it("falls back to sticky selection without usage snapshots in headroom mode", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-headroom-fallback-"));
+    const manager = await createManager(home, "headroom");
+    await manager.loadFromDisk();
+
+    await manager.addAccount("a@example.com", "rt-1");
+    await manager.addAccount("b@example.com", "rt-2");
+
+    const first = await manager.getNextAvailableAccount();
+    const second = await manager.getNextAvailableAccount();
+
+    expect(first?.index).toBe(0);
+    expect(second?.index).toBe(0);
+  });
+
+  it("prefers non-draining accounts for new sessions and retries", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-drain-"));
+    const manager = await createManager(home, "sticky", {
+      drainThresholds: { primary: 90, secondary: 100 },
+    });
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+
+    const started = manager.updateDrainState(a, {
+      primary: { usedPercent: 92, windowMinutes: 300, resetAt: Date.now() + 60_000 },
+      secondary: { usedPercent: 99, windowMinutes: 10080, resetAt: 0 },
+    });
+    expect(started).toBe(true);
+    expect(manager.isAccountDraining(a)).toBe(true);
+
+    const session = await manager.getNextAvailableAccountForNewSession();
+    expect(session?.index).toBe(1);
+
+    const retry = await manager.getNextAvailableAccountExcluding(new Set([b.id]));
+    expect(retry?.index).toBe(0);
+  });
+
+  it("stops draining once the window resets or usage drops", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-drain-reset-"));
+    const manager = await createManager(home, "sticky", {
+      drainThresholds: { primary: 90, secondary: 90 },
+    });
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+
+    manager.updateDrainState(a, {
+      primary: null,
+      secondary: { usedPercent: 95, windowMinutes: 10080, resetAt: Date.now() + 60_000 },
+    });
+    expect(manager.isAccountDraining(a)).toBe(true);
+    expect(manager.isAccountDraining(a, Date.now() + 120_000)).toBe(false);
+
+    manager.updateDrainState(a, {
+      primary: null,
+      secondary: { usedPercent: 5, windowMinutes: 10080, resetAt: Date.now() + 60_000 },
+    });
+    expect(manager.isAccountDraining(a)).toBe(false);
+  });
+
+  it("keeps account IDs stable when another account is removed", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-stable-ids-"));
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    const c = await manager.addAccount("c@example.com", "rt-3");
+    expect(new Set([a.id, b.id, c.id]).size).toBe(3);
+
+    const cId = c.id;
+    await manager.removeAccount(b);
+
+    expect(c.index).toBe(1);
+    expect(manager.getAccountById(cId)?.email).toBe("c@example.com");
+    expect(manager.getAccountById(b.id)).toBeNull();
+
+    const reloaded = await createManager(home, "sticky");
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAccountById(cId)?.email).toBe("c@example.com");
+  });
+
+  it("assigns IDs to accounts persisted without them", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-backfill-ids-"));
+    const dir = join(home, ".config", "opencode");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, "openai-accounts.json"),
+      JSON.stringify({
+        version: 1,
+        accounts: [
+          { index: 0, email: "a@example.com", addedAt: 0, parts: { refreshToken: "rt-1" }, rateLimitResets: {}, consecutiveFailures: 0 },
+          { index: 1, email: "b@example.com", addedAt: 0, parts: { refreshToken: "rt-2" }, rateLimitResets: {}, consecutiveFailures: 0 },
+        ],
+        activeAccountIndex: 0,
+      }),
+    );
+
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+    const ids = manager.getAllAccounts().map((account) => account.id);
+    expect(ids.every((id) => typeof id === "string" && id.length > 0)).toBe(true);
+
+    const reloaded = await createManager(home, "sticky");
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAllAccounts().map((account) => account.id)).toEqual(ids);
+
+    const persisted = JSON.parse(readFileSync(join(dir, "openai-accounts.json"), "utf-8"));
+    expect(persisted.version).toBe(2);
+    expect(persisted.accounts.every((account: { enabled: boolean }) => account.enabled)).toBe(true);
+    const backup = JSON.parse(readFileSync(join(dir, "openai-accounts.json.v1.bak"), "utf-8"));
+    expect(backup.version).toBe(1);
+  });
+
+  it("keeps migrated accounts when writing them back fails", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-migration-save-fails-"));
+    const dir = join(home, ".config", "opencode");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, "openai-accounts.json"),
+      JSON.stringify({
+        version: 1,
+        accounts: [
+          { index: 0, email: "a@example.com", addedAt: 0, parts: { refreshToken: "rt-1" }, rateLimitResets: {}, consecutiveFailures: 0 },
+        ],
+        activeAccountIndex: 0,
+      }),
+    );
+
+    const manager = await createManager(home, "sticky");
+    vi.spyOn(manager, "saveToDisk").mockRejectedValue(new Error("EACCES: permission denied"));
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    await manager.loadFromDisk();
+
+    expect(manager.getAllAccounts().map((account) => account.email)).toEqual(["a@example.com"]);
+    expect(manager.getStorageError()).toBeNull();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/Could not save migrated accounts file: EACCES/));
+  });
+
+  it("refuses to overwrite an accounts file from a newer version", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-newer-"));
+    const dir = join(home, ".config", "opencode");
+    mkdirSync(dir, { recursive: true });
+    const file = join(dir, "openai-accounts.json");
+    const contents = JSON.stringify({ version: 99, accounts: [] });
+    writeFileSync(file, contents);
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+
+    expect(manager.getStorageError()?.message).toMatch(/version 99/);
+    expect(errorSpy).toHaveBeenCalled();
+    await expect(manager.addAccount("a@example.com", "rt-1")).rejects.toThrow(/version 99/);
+    expect(readFileSync(file, "utf-8")).toBe(contents);
+  });
+
+  it("reports a malformed accounts file instead of replacing it", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-malformed-"));
+    const dir = join(home, ".config", "opencode");
+    mkdirSync(dir, { recursive: true });
+    const file = join(dir, "openai-accounts.json");
+    writeFileSync(file, "{ not json");
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+
+    expect(manager.getStorageError()?.message).toMatch(/Could not read accounts file/);
+    await expect(manager.addAccount("a@example.com", "rt-1")).rejects.toThrow(/not valid JSON/);
+    expect(readFileSync(file, "utf-8")).toBe("{ not json");
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("keeps an account when its removal cannot be saved", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-remove-fails-"));
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+
+    const file = join(home, ".config", "opencode", "openai-accounts.json");
+    writeFileSync(file, "{ not json");
+
+    await expect(manager.removeAccount(a)).rejects.toThrow(/not valid JSON/);
+    expect(manager.getAllAccounts().map((account) => account.id)).toEqual([a.id, b.id]);
+    expect(a.index).toBe(0);
+    expect(readFileSync(file, "utf-8")).toBe("{ not json");
+  });
+
+  it("never selects disabled accounts and persists the flag", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-disabled-"));
+    const manager = await createManager(home, "round-robin");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    await manager.setAccountEnabled(a, false);
+
+    expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+    expect(await manager.getNextAvailableAccountExcluding(new Set([b.id]))).toBeNull();
+
+    manager.markRateLimited(b, 60_000);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+
+    const reloaded = await createManager(home, "round-robin");
+    await reloaded.loadFromDisk();
+    const reloadedA = reloaded.getAccountById(a.id)!;
+    expect(reloaded.isAccountEnabled(reloadedA)).toBe(false);
+
+    await reloaded.setAccountEnabled(reloadedA, true);
+    expect((await reloaded.getNextAvailableAccount())?.id).toBe(a.id);
+  });
+
+  it("keeps the active account when other accounts are toggled", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-toggle-active-"));
+    const pid = Object.getOwnPropertyDescriptor(process, "pid")!;
+    // Offset 1 for three accounts, so a re-applied PID offset would be visible
+    Object.defineProperty(process, "pid", { ...pid, value: 4 });
+    try {
+      const manager = await createManager(home, "sticky", { pidOffsetEnabled: true });
+      await manager.loadFromDisk();
+      const a = await manager.addAccount("a@example.com", "rt-1");
+      const b = await manager.addAccount("b@example.com", "rt-2");
+      const c = await manager.addAccount("c@example.com", "rt-3");
+
+      const active = await manager.getNextAvailableAccount();
+      expect(active?.id).toBe(b.id);
+
+      await manager.setAccountEnabled(c, false);
+      await manager.setAccountEnabled(c, true);
+      await manager.setAccountEnabled(a, false);
+      expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+
+      await manager.setAccountEnabled(b, false);
+      expect((await manager.getNextAvailableAccount())?.id).toBe(c.id);
+    } finally {
+      Object.defineProperty(process, "pid", pid);
+    }
+  });
+
+  it("resolves accounts by position, ID or email", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-find-"));
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("B@Example.com", "rt-2");
+
+    expect(manager.findAccount("2")?.id).toBe(b.id);
+    expect(manager.findAccount(a.id)?.id).toBe(a.id);
+    expect(manager.findAccount("b@example.com")?.id).toBe(b.id);
+    expect(manager.findAccount("3")).toBeNull();
+    expect(manager.findAccount("nobody@example.com")).toBeNull();
+  });
+
+  it("reorders accounts while keeping the active account", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-move-"));
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+    const c = await manager.addAccount("c@example.com", "rt-3");
+
+    await manager.setActiveAccount(b);
+    await manager.moveAccount(c, 1);
+
+    expect(manager.getAllAccounts().map((account) => account.id)).toEqual([c.id, a.id, b.id]);
+    expect(manager.getAllAccounts().map((account) => account.index)).toEqual([0, 1, 2]);
+    expect(manager.getActiveAccount()?.id).toBe(b.id);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+
+    const reloaded = await createManager(home, "sticky");
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAllAccounts().map((account) => account.id)).toEqual([c.id, a.id, b.id]);
+  });
+
+  it("labels accounts and resets failure counters", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-label-"));
+    const manager = await createManager(home, "sticky");
+    const { getAccountLabel } = await import("../lib/accounts/manager.js");
+    await manager.loadFromDisk();
+
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    await manager.setAccountLabel(a, "  Work  ");
+    expect(getAccountLabel(a)).toBe("Work");
+
+    await manager.setAccountLabel(a, "");
+    expect(getAccountLabel(a)).toBe("a@example.com");
+
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    expect(await manager.getNextAvailableAccount()).toBeNull();
+
+    await manager.resetAccountFailures(a);
+    expect(a.consecutiveFailures).toBe(0);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(a.id);
+  });
+
+  it("keeps tokens refreshed by another process when saving", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-merge-tokens-"));
+    const first = await createManager(home, "sticky");
+    await first.loadFromDisk();
+    const a = await first.addAccount("a@example.com", "rt-1", undefined, 1_000);
+    await first.addAccount("b@example.com", "rt-2");
+
+    const second = await createManager(home, "sticky");
+    await second.loadFromDisk();
+    const other = second.getAccountById(a.id)!;
+    await second.updateAccountTokens(other, "access-new", "rt-1-new", 2_000);
+
+    await first.setActiveAccount(first.getAllAccounts()[1]);
+    expect(a.parts.refreshToken).toBe("rt-1-new");
+    expect(a.expires).toBe(2_000);
+
+    const reloaded = await createManager(home, "sticky");
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAccountById(a.id)?.parts.refreshToken).toBe("rt-1-new");
+  });
+
+  it("merges accounts added and removed by other processes", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-merge-accounts-"));
+    const first = await createManager(home, "sticky");
+    await first.loadFromDisk();
+    const a = await first.addAccount("a@example.com", "rt-1");
+    const b = await first.addAccount("b@example.com", "rt-2");
+
+    const second = await createManager(home, "sticky");
+    await second.loadFromDisk();
+    const c = await second.addAccount("c@example.com", "rt-3");
+    await second.removeAccount(second.getAccountById(b.id)!);
+
+    await first.setAccountLabel(a, "Work");
+    expect(first.getAllAccounts().map((account) => account.id)).toEqual([a.id, c.id]);
+
+    const reloaded = await createManager(home, "sticky");
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAllAccounts().map((account) => account.id)).toEqual([a.id, c.id]);
+    expect(reloaded.getAccountById(a.id)?.label).toBe("Work");
+  });
+
+  it("waits for a refresh running in another process instead of refreshing twice", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-refresh-lease-"));
+    const first = await createManager(home, "sticky");
+    const auth = await import("../lib/auth/auth.js");
+    const refreshSpy = vi.spyOn(auth, "refreshAccessToken");
+    const { tryAcquireFileLock } = await import("../lib/secure-file.js");
+    await first.loadFromDisk();
+    const a = await first.addAccount("a@example.com", "rt-1", "access-old", Date.now() - 1);
+
+    const leasePath = join(home, ".config", "opencode", `openai-accounts.json.refresh-${a.id}`);
+    const releaseLease = tryAcquireFileLock(leasePath)!;
+    const pending = first.ensureValidToken(a);
+
+    const second = await createManager(home, "sticky");
+    await second.loadFromDisk();
+    await second.updateAccountTokens(
+      second.getAccountById(a.id)!,
+      "access-new",
+      "rt-2",
+      Date.now() + 60 * 60 * 1000,
+    );
+    releaseLease();
+
+    await expect(pending).resolves.toBe(true);
+    expect(refreshSpy).not.toHaveBeenCalled();
+    expect(a.parts.refreshToken).toBe("rt-2");
+    expect(a.access).toBe("access-new");
+  });
+
+  it("adopts tokens from disk when the refresh token was already reused", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-refresh-reused-"));
+    const first = await createManager(home, "sticky");
+    const auth = await import("../lib/auth/auth.js");
+    await first.loadFromDisk();
+    const a = await first.addAccount("a@example.com", "rt-1", "access-old", Date.now() - 1);
+
+    const second = await createManager(home, "sticky");
+    await second.loadFromDisk();
+    vi.spyOn(auth, "refreshAccessToken").mockImplementation(async () => {
+      await second.updateAccountTokens(
+        second.getAccountById(a.id)!,
+        "access-new",
+        "rt-2",
+        Date.now() + 60 * 60 * 1000,
+      );
+      return { type: "failed", code: "refresh_token_reused" };
+    });
+
+    await expect(first.ensureValidToken(a)).resolves.toBe(true);
+    expect(a.parts.refreshToken).toBe("rt-2");
+    expect(a.consecutiveFailures).toBe(0);
+  });
+
+  it("reloads accounts changed by another process without losing local state", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-reload-"));
+    const first = await createManager(home, "sticky");
+    await first.loadFromDisk();
+    const a = await first.addAccount("a@example.com", "rt-1", undefined, 1_000);
+    const b = await first.addAccount("b@example.com", "rt-2");
+    first.markRateLimited(a, 60_000, "gpt-5.2-codex");
+
+    const second = await createManager(home, "sticky");
+    await second.loadFromDisk();
+    await second.updateAccountTokens(second.getAccountById(a.id)!, "access-new", "rt-1-new", 2_000);
+    const c = await second.addAccount("c@example.com", "rt-3");
+    await second.removeAccount(second.getAccountById(b.id)!);
+
+    expect(await first.reloadFromDisk()).toBe(true);
+    expect(first.getAllAccounts().map((account) => account.id)).toEqual([a.id, c.id]);
+    expect(first.getAllAccounts()[0]).toBe(a);
+    expect(a.parts.refreshToken).toBe("rt-1-new");
+    expect(a.rateLimitResets["gpt-5.2-codex"]).toBeGreaterThan(Date.now());
+  });
+
+  it("does not reload its own writes", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-own-write-"));
+    const manager = await createManager(home, "sticky");
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    await manager.setAccountLabel(a, "Work");
+
+    expect(await manager.reloadFromDisk()).toBe(false);
+  });
+
+  it("picks up new accounts while watching the accounts file", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-watch-"));
+    const first = await createManager(home, "sticky");
+    await first.loadFromDisk();
+    await first.addAccount("a@example.com", "rt-1");
+    first.startWatching();
+
+    try {
+      const second = await createManager(home, "sticky");
+      await second.loadFromDisk();
+      await second.addAccount("b@example.com", "rt-2");
+
+      await vi.waitFor(() => expect(first.getAccountCount()).toBe(2), { timeout: 3_000 });
+    } finally {
+      first.stopWatching();
+    }
+  });
+
+  it("stores encrypted credentials and refuses to load them without the key", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-encrypted-"));
+    const { AesGcmCredentialStore } = await import("../lib/accounts/credential-store.js");
+    const store = AesGcmCredentialStore.fromPassphrase("secret");
+    const manager = await createManager(home, "sticky", { credentialStore: store });
+    await manager.loadFromDisk();
+    await manager.addAccount("a@example.com", "rt-1", "access-1", Date.now() + 60_000);
+
+    const file = join(home, ".config", "opencode", "openai-accounts.json");
+    const raw = readFileSync(file, "utf-8");
+    expect(raw).not.toContain("rt-1");
+    expect(raw).not.toContain("access-1");
+
+    const reloaded = await createManager(home, "sticky", { credentialStore: store });
+    await reloaded.loadFromDisk();
+    expect(reloaded.getAllAccounts()[0]?.parts.refreshToken).toBe("rt-1");
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const withoutKey = await createManager(home, "sticky");
+    await withoutKey.loadFromDisk();
+    expect(withoutKey.getStorageError()?.message).toMatch(/no key is configured/);
+    expect(readFileSync(file, "utf-8")).toBe(raw);
+  });
+
+  it("decrypts stored credentials when switching back to plaintext", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-decrypt-"));
+    const { AesGcmCredentialStore, PlaintextCredentialStore } = await import(
+      "../lib/accounts/credential-store.js"
+    );
+    const store = AesGcmCredentialStore.fromPassphrase("secret");
+    const manager = await createManager(home, "sticky", { credentialStore: store });
+    await manager.loadFromDisk();
+    await manager.addAccount("a@example.com", "rt-1");
+
+    await manager.setCredentialStore(new PlaintextCredentialStore(store));
+
+    const persisted = JSON.parse(
+      readFileSync(join(home, ".config", "opencode", "openai-accounts.json"), "utf-8"),
+    );
+    expect(persisted.accounts[0].parts.refreshToken).toBe("rt-1");
+    expect(persisted.accounts[0].sealed).toBeUndefined();
+  });
+
+  it("cools failed accounts down with exponential backoff and reinstates them", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-backoff-"));
+    const manager = await createManager(home, "sticky", {
+      failureBackoff: { baseMs: 1_000, maxMs: 3_000, probeIntervalMs: 60_000 },
+    });
+    const { getAccountHealth } = await import("../lib/accounts/health.js");
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+
+    const before = Date.now();
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    expect(a.failureKind).toBe("transient");
+    expect(a.cooldownUntil! - before).toBeGreaterThanOrEqual(1_000);
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    expect(a.cooldownUntil! - before).toBeGreaterThanOrEqual(2_000);
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    await manager.markRefreshFailed(a, "Token refresh failed");
+    expect(a.cooldownUntil! - Date.now()).toBeLessThanOrEqual(3_000);
+
+    expect(getAccountHealth(a, Date.now())).toBe("cooling-down");
+    expect((await manager.getNextAvailableAccount())?.id).toBe(b.id);
+
+    // Cool-down elapsed: half-open, selectable again until the outcome is known.
+    a.cooldownUntil = Date.now() - 1;
+    expect(getAccountHealth(a, Date.now())).toBe("probing");
+    await manager.setActiveAccount(a);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(a.id);
+
+    manager.recordSuccess(a);
+    expect(getAccountHealth(a, Date.now())).toBe("healthy");
+    expect(a.consecutiveFailures).toBe(0);
+  });
+
+  it("keeps permanently failed accounts out until they are reset", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-permanent-"));
+    const manager = await createManager(home, "sticky", { removeOnInvalidGrant: false });
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+
+    await manager.markRefreshFailed(a, "Token invalid: invalid_grant. Please re-authenticate.");
+    expect(a.failureKind).toBe("permanent");
+    expect(a.cooldownUntil).toBeUndefined();
+    expect(await manager.getNextAvailableAccount()).toBeNull();
+
+    await manager.resetAccountFailures(a);
+    expect(a.failureKind).toBeUndefined();
+    expect((await manager.getNextAvailableAccount())?.id).toBe(a.id);
+  });
+
+  it("keeps refreshed tokens when saving them fails", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-refresh-save-fails-"));
+    const manager = await createManager(home, "sticky");
+    const auth = await import("../lib/auth/auth.js");
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1", "access-old", Date.now() - 1);
+
+    writeFileSync(join(home, ".config", "opencode", "openai-accounts.json"), "{ not json");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(auth, "refreshAccessToken").mockResolvedValue({
+      type: "success",
+      access: "access-new",
+      refresh: "rt-2",
+      expires: Date.now() + 60 * 60 * 1000,
+    });
+
+    await expect(manager.ensureValidToken(a)).resolves.toBe(true);
+    expect(a.parts.refreshToken).toBe("rt-2");
+    expect(a.access).toBe("access-new");
+    expect(a.consecutiveFailures).toBe(0);
+    expect(a.failureKind).toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/could not be saved: .*not valid JSON/));
+  });
+
+  it("reinstates an account when a probe refresh succeeds", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-probe-"));
+    const manager = await createManager(home, "sticky");
+    const auth = await import("../lib/auth/auth.js");
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1", "access-1", Date.now() + 60 * 60 * 1000);
+    await manager.markRefreshFailed(a, "401 Unauthorized");
+
+    const refreshSpy = vi.spyOn(auth, "refreshAccessToken").mockResolvedValue({
+      type: "success",
+      access: "access-2",
+      refresh: "rt-2",
+      expires: Date.now() + 2 * 60 * 60 * 1000,
+    });
+
+    await expect(manager.probeAccount(a)).resolves.toBe(true);
+    expect(refreshSpy).toHaveBeenCalledWith("rt-1");
+    expect(a.consecutiveFailures).toBe(0);
+    expect(a.failureKind).toBeUndefined();
+    expect(a.parts.refreshToken).toBe("rt-2");
+  });
+
+  it("spills over to accounts with free in-flight slots", async () => {
+    const home = mkdtempSync(join(tmpdir(), "strategy-in-flight-"));
+    const manager = await createManager(home, "sticky", { maxInFlightPerAccount: 1 });
+    await manager.loadFromDisk();
+    const a = await manager.addAccount("a@example.com", "rt-1");
+    const b = await manager.addAccount("b@example.com", "rt-2");
+
+    const releaseA = manager.tryAcquireInFlight(a);
+    expect(releaseA).not.toBeNull();
+    expect(manager.tryAcquireInFlight(a)).toBeNull();
+    expect(manager.getInFlightCount(a)).toEqual({ active: 1, queued: 0 });
+
+    const spill = await manager.getNextAccountWithCapacity(new Set([a.id]));
+    expect(spill?.id).toBe(b.id);
+    // The spill is for one request; the sticky account stays active
+    expect(manager.getActiveAccount()?.id).toBe(a.id);
+    expect((await manager.getNextAvailableAccount())?.id).toBe(a.id);
+
+    const releaseB = manager.tryAcquireInFlight(b);
+    expect(await manager.getNextAccountWithCapacity(new Set([a.id]))).toBeNull();
+
+    releaseA!();
+    releaseB!();
+    expect(manager.getInFlightCount(a)).toEqual({ active: 0, queued: 0 });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { mkdtempSync } from "node:fs";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { CodexStatusManager } from "../lib/codex-status.js";
@@ -23,6 +23,32 @@ describe("CodexStatusManager", () => {
     process.env.OPENCODE_OPENAI_CACHE_DIR = cacheDir;
   });
 
+  it("migrates the legacy array snapshot cache", async () => {
+    const legacySnapshot = {
+      accountId: "acc_123",
+      email: "user@example.com",
+      plan: "Plus",
+      updatedAt: Date.now(),
+      primary: { usedPercent: 42, windowMinutes: 300, resetAt: 0 },
+      secondary: null,
+      credits: null,
+    };
+    const file = join(cacheDir, "codex-snapshots.json");
+    writeFileSync(file, JSON.stringify([["acc_123|user@example.com|Plus", legacySnapshot]]));
+
+    const manager = new CodexStatusManager();
+    const snapshot = await manager.getSnapshot(baseAccount as any);
+    expect(snapshot?.primary?.usedPercent).toBe(42);
+
+    await manager.updateFromHeaders(baseAccount as any, {
+      "x-codex-primary-used-percent": "50",
+    });
+    const persisted = JSON.parse(readFileSync(file, "utf-8"));
+    expect(persisted.version).toBe(2);
+    expect(Array.isArray(persisted.snapshots)).toBe(true);
+    expect(existsSync(`${file}.v1.bak`)).toBe(true);
+  });
+
   it("parses headers and stores snapshot", async () => {
     const manager = new CodexStatusManager();
     await manager.updateFromHeaders(baseAccount as any, {
@@ -86,6 +112,51 @@ describe("CodexStatusManager", () => {
     expect(lines.some((line) => line.includes("Credits") && line.includes("unlimited"))).toBe(true);
   });
 
+  it("renders per-window drain thresholds", async () => {
+    const manager = new CodexStatusManager();
+    await manager.updateFromHeaders(baseAccount as any, {
+      "x-codex-primary-used-percent": "95",
+      "x-codex-secondary-used-percent": "40",
+    });
+
+    const lines = await manager.renderStatus(baseAccount as any, {
+      drainThresholds: { primary: 90, secondary: 80 },
+    });
+    expect(lines.some((line) => line.includes("5h limit:") && line.includes("DRAINING (>= 90%)"))).toBe(true);
+    expect(lines.some((line) => line.includes("Weekly limit:") && line.includes("(drain at 80%)"))).toBe(true);
+  });
+
+  it("renders the in-flight request count", async () => {
+    const manager = new CodexStatusManager();
+
+    const unbounded = await manager.renderStatus(baseAccount as any, {
+      inFlight: { active: 3, queued: 0, limit: 0 },
+    });
+    expect(unbounded).toContain("  In flight:         3");
+
+    const limited = await manager.renderStatus(baseAccount as any, {
+      inFlight: { active: 2, queued: 1, limit: 2 },
+    });
+    expect(limited).toContain("  In flight:         2/2 (1 queued)");
+  });
+
+  it("renders token usage when the account has recorded requests", async () => {
+    const manager = new CodexStatusManager();
+    const usage = {
+      requests: 2,
+      inputTokens: 15_000,
+      cachedInputTokens: 9_000,
+      outputTokens: 800,
+      reasoningTokens: 300,
+    };
+
+    const lines = await manager.renderStatus(baseAccount as any, { usage });
+    expect(lines).toContain("  Tokens (30d):      15.0k in (9.0k cached), 800 out (300 reasoning), 2 requests");
+
+    const idle = await manager.renderStatus(baseAccount as any, { usage: { ...usage, requests: 0 } });
+    expect(idle.some((line) => line.includes("Tokens (30d)"))).toBe(false);
+  });
+
   it("keeps distinct snapshots for minimal accounts", async () => {
     const manager = new CodexStatusManager();
     const accountA = {
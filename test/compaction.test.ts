@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { compactInput, isContextOverflowError } from "../lib/request/compaction.js";
+import type { ContextCompactionConfig, InputItem } from "../lib/types.js";
+
+const config: Required<ContextCompactionConfig> = {
+  strategy: "summarize",
+  preserveRecentItems: 2,
+  maxAttempts: 2,
+};
+
+const message = (content: string): InputItem => ({ type: "message", role: "user", content });
+const call = (callId: string): InputItem =>
+  ({ type: "function_call", role: "assistant", call_id: callId, name: "bash", arguments: "{}" }) as InputItem;
+const output = (callId: string, size: number): InputItem =>
+  ({ type: "function_call_output", role: "tool", call_id: callId, output: "o".repeat(size) }) as InputItem;
+const reasoning = (): InputItem =>
+  ({ type: "reasoning", role: "assistant", encrypted_content: "r".repeat(2_000) }) as InputItem;
+
+describe("isContextOverflowError", () => {
+  it("recognizes context-length errors", () => {
+    expect(isContextOverflowError('{"error":{"code":"context_length_exceeded"}}')).toBe(true);
+    expect(
+      isContextOverflowError("Your input exceeds the context window of this model."),
+    ).toBe(true);
+    expect(isContextOverflowError('{"detail":"model is not supported"}')).toBe(false);
+  });
+});
+
+describe("compactInput", () => {
+  it("summarizes the oldest tool outputs and drops old reasoning", () => {
+    const input = [
+      message("start"),
+      reasoning(),
+      call("a"),
+      output("a", 20_000),
+      call("b"),
+      output("b", 20_000),
+      message("recent"),
+      message("latest"),
+    ];
+
+    const result = compactInput(input, config)!;
+
+    expect(result.droppedReasoning).toBe(1);
+    expect(result.summarizedOutputs).toBe(1);
+    expect(result.input).toHaveLength(7);
+    expect(String(result.input[2].output)).toMatch(
+      /^\[Tool output compacted to fit the context window: \d+ of 20000 chars removed\]\n/,
+    );
+    // Enough was freed after the first output; the second one stays intact
+    expect(result.input[4].output).toBe("o".repeat(20_000));
+    expect(result.input.slice(-2)).toEqual([message("recent"), message("latest")]);
+  });
+
+  it("removes dropped outputs together with their calls", () => {
+    const input = [call("a"), output("a", 20_000), call("b"), output("b", 100), message("latest")];
+
+    const result = compactInput(input, { ...config, strategy: "drop", preserveRecentItems: 1 })!;
+
+    expect(result.droppedToolCalls).toBe(1);
+    expect(result.input.map((item) => item.call_id ?? item.type)).toEqual(["b", "b", "message"]);
+  });
+
+  it("never touches the most recent items", () => {
+    const input = [message("start"), call("a"), output("a", 20_000)];
+
+    expect(compactInput(input, { ...config, preserveRecentItems: 2 })).toBeNull();
+  });
+
+  it("does not compact already summarized outputs again", () => {
+    const keepLatest = { ...config, preserveRecentItems: 1 };
+    const first = compactInput([call("a"), output("a", 20_000), message("latest")], keepLatest)!;
+
+    expect(first.summarizedOutputs).toBe(1);
+    expect(compactInput(first.input, keepLatest)).toBeNull();
+  });
+
+  it("does nothing when turned off", () => {
+    expect(compactInput([reasoning(), message("latest")], { ...config, strategy: "off" })).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { getModelConfig, getReasoningConfig } from '../lib/request/request-transformer.js';
+import type { ModelInfo } from '../lib/models.js';
 import type { UserConfig } from '../lib/types.js';
 
 describe('Configuration Parsing', () => {
@@ -148,4 +149,38 @@ describe('Configuration Parsing', () => {
 			expect(gpt5Reasoning.effort).toBe('medium');
 		});
 	});
+
+	describe('Backend model metadata', () => {
+		const modelInfo: ModelInfo = {
+			slug: 'gpt-6-codex',
+			display_name: 'GPT 6 Codex',
+			default_reasoning_level: 'high',
+			supported_reasoning_levels: [{ effort: 'low' }, { effort: 'medium' }, { effort: 'high' }],
+		};
+
+		it('should use the backend default level when no effort is configured', () => {
+			expect(getReasoningConfig('gpt-6-codex', {}, modelInfo).effort).toBe('high');
+		});
+
+		it('should clamp to the nearest supported level', () => {
+			expect(getReasoningConfig('gpt-6-codex', { reasoningEffort: 'xhigh' }, modelInfo).effort).toBe('high');
+			expect(getReasoningConfig('gpt-6-codex', { reasoningEffort: 'none' }, modelInfo).effort).toBe('low');
+			expect(getReasoningConfig('gpt-6-codex', { reasoningEffort: 'medium' }, modelInfo).effort).toBe('medium');
+		});
+
+		it('should prefer the higher level on a tie', () => {
+			const gappy: ModelInfo = { ...modelInfo, supported_reasoning_levels: ['low', 'xhigh'] };
+			expect(getReasoningConfig('gpt-6-codex', { reasoningEffort: 'high' }, gappy).effort).toBe('xhigh');
+		});
+
+		it('should override name heuristics when metadata is known', () => {
+			const mini: ModelInfo = { slug: 'gpt-5-codex-mini', display_name: 'mini', supported_reasoning_levels: ['low', 'medium'] };
+			expect(getReasoningConfig('gpt-5-codex-mini', { reasoningEffort: 'low' }, mini).effort).toBe('low');
+		});
+
+		it('should fall back to heuristics without supported levels', () => {
+			const bare: ModelInfo = { slug: 'gpt-5-codex', display_name: 'GPT 5 Codex' };
+			expect(getReasoningConfig('gpt-5-codex', { reasoningEffort: 'xhigh' }, bare).effort).toBe('high');
+		});
+	});
 });
@@ -0,0 +1,95 @@
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  AesGcmCredentialStore,
+  CredentialStoreError,
+  PlaintextCredentialStore,
+  createCredentialsKeyFile,
+} from "../lib/accounts/credential-store.js";
+import type { ManagedAccount } from "../lib/accounts/types.js";
+
+const account: ManagedAccount = {
+  id: "acct_a",
+  index: 0,
+  email: "a@example.com",
+  addedAt: 0,
+  parts: { refreshToken: "rt-secret" },
+  access: "access-secret",
+  expires: 1_000,
+  rateLimitResets: {},
+  consecutiveFailures: 0,
+};
+
+describe("credential stores", () => {
+  const tempRoots: string[] = [];
+
+  afterEach(() => {
+    for (const root of tempRoots.splice(0, tempRoots.length)) {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  function createKeyFile(): string {
+    const root = mkdtempSync(join(tmpdir(), "opencode-credentials-"));
+    tempRoots.push(root);
+    return createCredentialsKeyFile(join(root, "accounts.key"));
+  }
+
+  it("round-trips credentials through a passphrase store", () => {
+    const store = AesGcmCredentialStore.fromPassphrase("correct horse");
+    const sealed = store.seal(account);
+
+    expect(JSON.stringify(sealed)).not.toContain("rt-secret");
+    expect(JSON.stringify(sealed)).not.toContain("access-secret");
+    expect(sealed.sealed?.kdf).toBe("scrypt");
+    expect(sealed.email).toBe("a@example.com");
+
+    const opened = AesGcmCredentialStore.fromPassphrase("correct horse").open(sealed);
+    expect(opened.parts.refreshToken).toBe("rt-secret");
+    expect(opened.access).toBe("access-secret");
+    expect("sealed" in opened).toBe(false);
+  });
+
+  it("rejects a wrong passphrase and blobs moved to another account", () => {
+    const sealed = AesGcmCredentialStore.fromPassphrase("correct horse").seal(account);
+
+    expect(() => AesGcmCredentialStore.fromPassphrase("wrong").open(sealed)).toThrow(
+      /wrong passphrase or keyfile/,
+    );
+    expect(() =>
+      AesGcmCredentialStore.fromPassphrase("correct horse").open({ ...sealed, id: "acct_b" }),
+    ).toThrow(CredentialStoreError);
+  });
+
+  it("creates owner-only keyfiles and never replaces them", () => {
+    const keyFile = createKeyFile();
+    expect(statSync(keyFile).mode & 0o777).toBe(0o600);
+    expect(() => createCredentialsKeyFile(keyFile)).toThrow(/already exists/);
+
+    const store = AesGcmCredentialStore.fromKeyFile(keyFile);
+    const sealed = store.seal(account);
+    expect(sealed.sealed?.kdf).toBe("keyfile");
+    expect(AesGcmCredentialStore.fromKeyFile(keyFile).open(sealed).parts.refreshToken).toBe(
+      "rt-secret",
+    );
+  });
+
+  it("rejects malformed keyfiles", () => {
+    const keyFile = createKeyFile();
+    writeFileSync(keyFile, "too-short");
+    expect(() => AesGcmCredentialStore.fromKeyFile(keyFile)).toThrow(/32 base64-encoded bytes/);
+  });
+
+  it("refuses sealed credentials in plaintext mode unless given an opener", () => {
+    const keyStore = AesGcmCredentialStore.fromKeyFile(createKeyFile());
+    const sealed = keyStore.seal(account);
+
+    expect(() => new PlaintextCredentialStore().open(sealed)).toThrow(/no key is configured/);
+
+    const decrypting = new PlaintextCredentialStore(keyStore);
+    const opened = decrypting.open(sealed);
+    expect(decrypting.seal(opened)).toEqual(opened);
+  });
+});
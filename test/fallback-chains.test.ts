@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { FallbackChains } from "../lib/request/fallback-chains.js";
+import type { FallbackChainConfig } from "../lib/types.js";
+
+const codexChain: FallbackChainConfig = {
+  models: ["gpt-5.3-codex", "gpt-5.2-codex", "gpt-5.1-codex"],
+};
+
+describe("Fallback chains", () => {
+  it("walks a chain one model at a time", () => {
+    const chains = new FallbackChains([codexChain]);
+
+    expect(chains.getNext("gpt-5.3-codex", "unsupported")?.to).toBe("gpt-5.2-codex");
+    expect(chains.getNext("gpt-5.2-codex", "unsupported")?.to).toBe("gpt-5.1-codex");
+    expect(chains.getNext("gpt-5.1-codex", "unsupported")).toBeNull();
+    expect(chains.getNext("gpt-4o", "unsupported")).toBeNull();
+  });
+
+  it("matches models case-insensitively and with a provider prefix", () => {
+    const chains = new FallbackChains([codexChain]);
+    expect(chains.getNext("openai/GPT-5.3-Codex", "unsupported")?.to).toBe("gpt-5.2-codex");
+  });
+
+  it("skips models the request already tried", () => {
+    const chains = new FallbackChains([{ models: ["a", "b", "c"] }]);
+
+    expect(chains.getNext("a", "unsupported", new Set(["b"]))?.to).toBe("c");
+    expect(chains.getNext("b", "unsupported", new Set(["c"]))).toBeNull();
+  });
+
+  it("only falls back on rate limits when the chain opts in", () => {
+    const chains = new FallbackChains([
+      codexChain,
+      { models: ["gpt-5.2", "gpt-5.1"], onRateLimit: true },
+    ]);
+
+    expect(chains.getNext("gpt-5.3-codex", "rate-limit")).toBeNull();
+    expect(chains.getNext("gpt-5.2", "rate-limit")?.to).toBe("gpt-5.1");
+  });
+
+  it("applies each chain's notification setting", () => {
+    const once = { models: ["a", "b"] };
+    const always: FallbackChainConfig = { models: ["c", "d"], notify: "always" };
+    const never: FallbackChainConfig = { models: ["e", "f"], notify: "never" };
+    const chains = new FallbackChains([once, always, never]);
+
+    const onceStep = chains.getNext("a", "unsupported")!;
+    expect(chains.shouldNotify(onceStep)).toBe(true);
+    expect(chains.shouldNotify(onceStep)).toBe(false);
+
+    const alwaysStep = chains.getNext("c", "unsupported")!;
+    expect(chains.shouldNotify(alwaysStep)).toBe(true);
+    expect(chains.shouldNotify(alwaysStep)).toBe(true);
+
+    expect(chains.shouldNotify(chains.getNext("e", "unsupported")!)).toBe(false);
+
+    // A new plugin instance starts with a clean slate
+    expect(new FallbackChains([once]).shouldNotify(onceStep)).toBe(true);
+  });
+});
@@ -9,6 +9,7 @@ import {
   createCodexHeaders,
   handleErrorResponse,
   handleSuccessResponse,
+  sleep,
 } from "../lib/request/fetch-helpers.js";
 import type { Auth } from "../lib/types.js";
 import {
@@ -313,4 +314,33 @@ describe("Fetch Helpers Module", () => {
       expect(result.headers.get("content-type")).toContain("text/event-stream");
     });
   });
+
+  describe("sleep", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("resolves after the given time", async () => {
+      vi.useFakeTimers();
+      let done = false;
+      const promise = sleep(1000).then(() => {
+        done = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+      expect(done).toBe(true);
+    });
+
+    it("rejects with the abort reason when the caller aborts", async () => {
+      const controller = new AbortController();
+      const promise = sleep(60_000, controller.signal);
+      controller.abort(new Error("cancelled"));
+
+      await expect(promise).rejects.toThrow("cancelled");
+      await expect(sleep(10, controller.signal)).rejects.toThrow("cancelled");
+    });
+  });
 });
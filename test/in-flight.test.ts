@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { InFlightLimiter, releaseWhenBodyDone } from "../lib/accounts/in-flight.js";
+
+describe("In-flight limiter", () => {
+  it("never limits when the limit is 0", () => {
+    const limiter = new InFlightLimiter(0);
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.tryAcquire("acct")).not.toBeNull();
+    }
+    expect(limiter.getActive("acct")).toBe(10);
+  });
+
+  it("queues requests beyond the limit and hands slots over in order", async () => {
+    const limiter = new InFlightLimiter(1);
+    const release = limiter.tryAcquire("acct")!;
+    const order: string[] = [];
+
+    const first = limiter.acquire("acct").then((r) => {
+      order.push("first");
+      return r;
+    });
+    const second = limiter.acquire("acct").then((r) => {
+      order.push("second");
+      return r;
+    });
+    expect(limiter.getQueued("acct")).toBe(2);
+
+    release();
+    release();
+    const releaseFirst = await first;
+    expect(order).toEqual(["first"]);
+    expect(limiter.getActive("acct")).toBe(1);
+
+    releaseFirst();
+    (await second)();
+    expect(order).toEqual(["first", "second"]);
+    expect(limiter.getActive("acct")).toBe(0);
+    expect(limiter.getQueued("acct")).toBe(0);
+  });
+
+  it("drops aborted waiters from the queue", async () => {
+    const limiter = new InFlightLimiter(1);
+    const release = limiter.tryAcquire("acct")!;
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire("acct", controller.signal);
+    controller.abort(new Error("cancelled"));
+
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.getQueued("acct")).toBe(0);
+    release();
+    expect(limiter.getActive("acct")).toBe(0);
+  });
+
+  it("keeps limits separate per account", () => {
+    const limiter = new InFlightLimiter(1);
+    expect(limiter.tryAcquire("a")).not.toBeNull();
+    expect(limiter.tryAcquire("a")).toBeNull();
+    expect(limiter.tryAcquire("b")).not.toBeNull();
+  });
+
+  it("releases once the response body is consumed or cancelled", async () => {
+    const limiter = new InFlightLimiter(2);
+
+    const consumed = releaseWhenBodyDone(new Response("data"), limiter.tryAcquire("acct")!);
+    const cancelled = releaseWhenBodyDone(new Response("data"), limiter.tryAcquire("acct")!);
+    expect(limiter.getActive("acct")).toBe(2);
+
+    expect(await consumed.text()).toBe("data");
+    expect(limiter.getActive("acct")).toBe(1);
+
+    await cancelled.body!.cancel();
+    expect(limiter.getActive("acct")).toBe(0);
+  });
+});
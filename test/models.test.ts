@@ -0,0 +1,109 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const STALE_AT = Date.now() - 10 * 60 * 1000;
+
+function modelsResponse(slug: string): Response {
+  return Response.json({ models: [{ slug, display_name: slug }] });
+}
+
+describe("models cache", () => {
+  let cacheDir: string;
+  const originalFetch = globalThis.fetch;
+
+  const loadModels = async () => {
+    vi.resetModules();
+    return import("../lib/models.js");
+  };
+
+  const writeDiskCache = (slug: string, fetchedAt: number) => {
+    writeFileSync(
+      join(cacheDir, "codex-models.json"),
+      JSON.stringify({
+        version: 1,
+        accounts: { acct: { models: [{ slug, display_name: slug }], fetchedAt } },
+      }),
+    );
+  };
+
+  const readDiskCache = () =>
+    JSON.parse(readFileSync(join(cacheDir, "codex-models.json"), "utf8"));
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "models-cache-"));
+    process.env.OPENCODE_OPENAI_CACHE_DIR = cacheDir;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete process.env.OPENCODE_OPENAI_CACHE_DIR;
+    rmSync(cacheDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("serves a fresh disk entry without any request", async () => {
+    writeDiskCache("gpt-5.2-codex", Date.now());
+    const fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as typeof fetch;
+    const { fetchAvailableModels } = await loadModels();
+
+    const models = await fetchAvailableModels("token", "acct");
+
+    expect(models.map((model) => model.slug)).toEqual(["gpt-5.2-codex"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("returns a stale entry immediately and revalidates in the background", async () => {
+    writeDiskCache("gpt-5.2-codex", STALE_AT);
+    let respond!: (response: Response) => void;
+    const fetchMock = vi.fn(() => new Promise<Response>((resolve) => (respond = resolve)));
+    globalThis.fetch = fetchMock as typeof fetch;
+    const { fetchAvailableModels } = await loadModels();
+
+    const stale = await fetchAvailableModels("token", "acct");
+    // A second caller shares the refresh already in flight
+    await fetchAvailableModels("token", "acct");
+
+    expect(stale.map((model) => model.slug)).toEqual(["gpt-5.2-codex"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    respond(modelsResponse("gpt-5.3-codex"));
+    await vi.waitFor(() => {
+      expect(readDiskCache().accounts.acct.models[0].slug).toBe("gpt-5.3-codex");
+    });
+    const refreshed = await fetchAvailableModels("token", "acct");
+    expect(refreshed.map((model) => model.slug)).toEqual(["gpt-5.3-codex"]);
+  });
+
+  it("looks up models from the disk cache before anything is fetched", async () => {
+    writeDiskCache("gpt-5.2-codex", STALE_AT);
+    const { getModelInfo } = await loadModels();
+
+    expect(getModelInfo("GPT-5.2-Codex")?.slug).toBe("gpt-5.2-codex");
+    expect(getModelInfo("gpt-5.3-codex")).toBeUndefined();
+  });
+
+  it("prefetchModels never waits for the network", async () => {
+    const fetchMock = vi.fn(() => new Promise<Response>(() => {}));
+    globalThis.fetch = fetchMock as typeof fetch;
+    const { prefetchModels } = await loadModels();
+
+    expect(prefetchModels("token", "acct")).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a failing refresh once and backs off", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("down", { status: 503 }));
+    globalThis.fetch = fetchMock as typeof fetch;
+    const { fetchAvailableModels } = await loadModels();
+
+    expect(await fetchAvailableModels("token", "acct")).toEqual([]);
+    expect(await fetchAvailableModels("token", "acct")).toEqual([]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
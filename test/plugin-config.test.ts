@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { getCodexMode } from "../lib/config.js";
+import {
+  getCodexMode,
+  getContextCompaction,
+  getFallbackChains,
+  getModelAliases,
+  getToolOutputPolicy,
+} from "../lib/config.js";
 import type { PluginConfig } from "../lib/types.js";
 
 describe("Plugin Configuration", () => {
@@ -87,4 +93,109 @@ describe("Plugin Configuration", () => {
       expect(getCodexMode({})).toBe(true);
     });
   });
+
+  describe("getFallbackChains", () => {
+    it("builds single-hop chains from MODEL_FALLBACKS by default", () => {
+      const chains = getFallbackChains({});
+
+      expect(chains).toContainEqual({ models: ["gpt-5.3-codex", "gpt-5.2-codex"] });
+    });
+
+    it("uses configured chains instead of the defaults", () => {
+      const chains = getFallbackChains({
+        fallbackChains: [
+          { models: ["gpt-5.3-codex", "gpt-5.2-codex", "gpt-5.1-codex"], onRateLimit: true },
+        ],
+      });
+
+      expect(chains).toEqual([
+        { models: ["gpt-5.3-codex", "gpt-5.2-codex", "gpt-5.1-codex"], onRateLimit: true },
+      ]);
+    });
+
+    it("drops chains with fewer than two models", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const chains = getFallbackChains({
+        fallbackChains: [{ models: ["gpt-5.3-codex"] }, { models: ["a", "b"] }],
+      });
+
+      expect(chains).toEqual([{ models: ["a", "b"] }]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe("getModelAliases", () => {
+    it("returns no aliases by default", () => {
+      expect(getModelAliases({})).toEqual({});
+    });
+
+    it("keeps valid aliases and drops invalid ones", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const aliases = getModelAliases({
+        modelAliases: {
+          "gpt-6-codex-high": { model: "gpt-6-codex", reasoningEffort: "high" },
+          "no-model": { model: "" },
+          "bad-effort": { model: "gpt-6-codex", reasoningEffort: "extreme" as never },
+          "bad-verbosity": { model: "gpt-6-codex", textVerbosity: "loud" as never },
+        },
+      });
+
+      expect(aliases).toEqual({
+        "gpt-6-codex-high": { model: "gpt-6-codex", reasoningEffort: "high" },
+      });
+      expect(warn).toHaveBeenCalledTimes(3);
+      warn.mockRestore();
+    });
+  });
+
+  describe("getContextCompaction", () => {
+    it("defaults to summarizing with two attempts", () => {
+      expect(getContextCompaction({})).toEqual({
+        strategy: "summarize",
+        preserveRecentItems: 8,
+        maxAttempts: 2,
+      });
+    });
+
+    it("replaces invalid fields with defaults", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const config = getContextCompaction({
+        contextCompaction: {
+          strategy: "shrink" as never,
+          preserveRecentItems: 4,
+          maxAttempts: -1,
+        },
+      });
+
+      expect(config).toEqual({ strategy: "summarize", preserveRecentItems: 4, maxAttempts: 2 });
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+  });
+
+  describe("getToolOutputPolicy", () => {
+    it("keeps the former orphaned-output limit by default", () => {
+      expect(getToolOutputPolicy({})).toEqual({ maxChars: 16000, tailChars: 0, tools: {} });
+    });
+
+    it("resolves per-tool overrides and drops invalid limits", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const policy = getToolOutputPolicy({
+        toolOutputTruncation: {
+          maxChars: 8000,
+          tailChars: -5,
+          tools: { read: { maxChars: 40000 } },
+        },
+      });
+
+      expect(policy).toEqual({
+        maxChars: 8000,
+        tailChars: 0,
+        tools: { read: { maxChars: 40000, tailChars: undefined } },
+      });
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
 });
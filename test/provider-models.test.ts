@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchAvailableModels, getCachedModels } from "../lib/models.js";
+import type { ModelInfo } from "../lib/models.js";
+import {
+  buildProviderModels,
+  filterUserProviderModels,
+  loadBundledProviderModels,
+} from "../lib/provider-models.js";
+
+const bundled = {
+  "gpt-5.2-codex": {
+    name: "GPT 5.2 Codex (OAuth)",
+    limit: { context: 272000, output: 128000 },
+    variants: { high: { reasoningEffort: "high" as const } },
+  },
+  "gpt-5.1": { name: "GPT 5.1 (OAuth)" },
+};
+
+describe("buildProviderModels", () => {
+  it("falls back to the bundled template when no account list is known", () => {
+    expect(buildProviderModels([], bundled)).toBe(bundled);
+    expect(buildProviderModels([[]], bundled)).toBe(bundled);
+  });
+
+  it("lists only models some account can use, with variants from reasoning levels", () => {
+    const models: ModelInfo[] = [
+      {
+        slug: "gpt-6-codex",
+        display_name: "GPT 6 Codex",
+        default_reasoning_level: "medium",
+        supported_reasoning_levels: [
+          { effort: "low" },
+          { effort: "medium" },
+          { effort: "xhigh", description: "Extra high" },
+        ],
+      },
+      { slug: "gpt-5.2-codex", display_name: "gpt-5.2-codex" },
+      { slug: "internal-model", display_name: "Internal", visibility: "hide" },
+    ];
+
+    const result = buildProviderModels([models, [models[1]]], bundled);
+
+    expect(Object.keys(result).sort()).toEqual(["gpt-5.2-codex", "gpt-6-codex"]);
+    expect(result["gpt-6-codex"]).toEqual({
+      name: "GPT 6 Codex (OAuth)",
+      limit: { context: 272000, output: 128000 },
+      modalities: { input: ["text", "image"], output: ["text"] },
+      options: { reasoningEffort: "medium" },
+      variants: {
+        low: { reasoningEffort: "low", reasoningSummary: "auto", textVerbosity: "medium" },
+        medium: { reasoningEffort: "medium", reasoningSummary: "auto", textVerbosity: "medium" },
+        xhigh: { reasoningEffort: "xhigh", reasoningSummary: "detailed", textVerbosity: "medium" },
+      },
+    });
+    // Known models keep the template's name and variants when the backend lists no levels
+    expect(result["gpt-5.2-codex"].name).toBe("GPT 5.2 Codex (OAuth)");
+    expect(result["gpt-5.2-codex"].variants).toEqual(bundled["gpt-5.2-codex"].variants);
+  });
+
+  it("loads the bundled config template", () => {
+    expect(Object.keys(loadBundledProviderModels())).toContain("gpt-5.2-codex");
+  });
+});
+
+describe("filterUserProviderModels", () => {
+  const userModels = {
+    "gpt-5.2-codex": { name: "Mine" },
+    "gpt-5.2-codex-high": { name: "Legacy variant" },
+    "gpt-5.3-codex": { name: "Not available yet" },
+  };
+
+  it("drops user-declared models no account can use", () => {
+    const accounts: ModelInfo[][] = [[{ slug: "gpt-5.2-codex", display_name: "gpt-5.2-codex" }]];
+
+    expect(filterUserProviderModels(userModels, accounts)).toEqual({
+      models: {
+        "gpt-5.2-codex": { name: "Mine" },
+        "gpt-5.2-codex-high": { name: "Legacy variant" },
+      },
+      dropped: ["gpt-5.3-codex"],
+    });
+  });
+
+  it("keeps every entry while no account list is known", () => {
+    expect(filterUserProviderModels(userModels, [[]])).toEqual({ models: userModels, dropped: [] });
+  });
+});
+
+describe("getCachedModels", () => {
+  let cacheDir: string;
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "provider-models-"));
+    process.env.OPENCODE_OPENAI_CACHE_DIR = cacheDir;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete process.env.OPENCODE_OPENAI_CACHE_DIR;
+    rmSync(cacheDir, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  it("reads model lists persisted by another process", async () => {
+    globalThis.fetch = vi.fn(async () =>
+      Response.json({ models: [{ slug: "gpt-6-codex", display_name: "GPT 6 Codex" }] }),
+    ) as typeof fetch;
+    await fetchAvailableModels("token", "chatgpt-acct-1");
+
+    vi.resetModules();
+    const fresh = await import("../lib/models.js");
+    const cached = fresh.getCachedModels(["chatgpt-acct-1", "chatgpt-acct-2"]);
+
+    expect([...cached.keys()]).toEqual(["chatgpt-acct-1"]);
+    expect(cached.get("chatgpt-acct-1")?.[0].slug).toBe("gpt-6-codex");
+  });
+
+  it("returns nothing without a cache file", () => {
+    expect(getCachedModels(["chatgpt-acct-unknown"]).size).toBe(0);
+  });
+});
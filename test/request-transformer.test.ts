@@ -9,7 +9,10 @@ import {
   filterOpenCodeSystemPromptsWithCachedPrompt,
   addCodexBridgeMessage,
   transformRequestBody,
+  applyModelAlias,
 } from "../lib/request/request-transformer.js";
+import { registerModelAliases } from "../lib/request/helpers/model-map.js";
+import { truncateToolOutput } from "../lib/request/helpers/input-utils.js";
 import { TOOL_REMAP_MESSAGE } from "../lib/prompts/codex.js";
 import { CODEX_OPENCODE_BRIDGE } from "../lib/prompts/codex-opencode-bridge.js";
 import type { RequestBody, UserConfig, InputItem } from "../lib/types.js";
@@ -290,6 +293,88 @@ describe("Request Transformer Module", () => {
     });
   });
 
+  describe("truncateToolOutput", () => {
+    const policy = { maxChars: 10, tailChars: 4, tools: { bash: { tailChars: 0 } } };
+
+    it("keeps head and tail around a marker", () => {
+      expect(truncateToolOutput("0123456789abcdef", "read", policy)).toBe(
+        "012345\n...[truncated 6 of 16 chars]...\ncdef",
+      );
+    });
+
+    it("applies per-tool overrides", () => {
+      expect(truncateToolOutput("0123456789abcdef", "bash", policy)).toBe(
+        "0123456789\n...[truncated 6 of 16 chars]...",
+      );
+    });
+
+    it("leaves short outputs and disabled limits alone", () => {
+      expect(truncateToolOutput("short", "read", policy)).toBe("short");
+      expect(truncateToolOutput("x".repeat(50), "read", { ...policy, maxChars: 0 })).toBe(
+        "x".repeat(50),
+      );
+    });
+  });
+
+  describe("Model aliases", () => {
+    beforeEach(() => {
+      registerModelAliases({
+        "gpt-6-codex-high": {
+          model: "gpt-6-codex",
+          reasoningEffort: "high",
+          textVerbosity: "low",
+        },
+        "gpt-5.1-codex": { model: "gpt-5.1-codex-max" },
+      });
+    });
+
+    afterEach(() => {
+      registerModelAliases({});
+    });
+
+    it("normalizes an alias to its API model, with or without provider prefix", () => {
+      expect(normalizeModel("gpt-6-codex-high")).toBe("gpt-6-codex");
+      expect(normalizeModel("openai/GPT-6-Codex-High")).toBe("gpt-6-codex");
+    });
+
+    it("takes precedence over the built-in model map", () => {
+      expect(normalizeModel("gpt-5.1-codex")).toBe("gpt-5.1-codex-max");
+    });
+
+    it("layers alias defaults between global and per-model options", () => {
+      const result = getModelConfig("gpt-6-codex-high", {
+        global: { reasoningEffort: "low", reasoningSummary: "concise" },
+        models: { "gpt-6-codex-high": { options: { textVerbosity: "high" } } },
+      });
+
+      expect(result).toEqual({
+        reasoningEffort: "high",
+        reasoningSummary: "concise",
+        textVerbosity: "high",
+      });
+    });
+
+    it("rewrites the request body without overriding explicit settings", () => {
+      const body = {
+        model: "gpt-6-codex-high",
+        input: [],
+        reasoning: { effort: "medium" },
+      } as RequestBody;
+
+      expect(applyModelAlias(body)).toBe(true);
+      expect(body.model).toBe("gpt-6-codex");
+      expect(body.reasoning).toEqual({ effort: "medium" });
+      expect(body.text).toEqual({ verbosity: "low" });
+    });
+
+    it("leaves unknown models untouched", () => {
+      const body = { model: "gpt-5-codex", input: [] } as RequestBody;
+
+      expect(applyModelAlias(body)).toBe(false);
+      expect(body).toEqual({ model: "gpt-5-codex", input: [] });
+    });
+  });
+
   describe("filterInput", () => {
     it("should keep items without IDs unchanged", async () => {
       const input: InputItem[] = [
@@ -1302,6 +1387,66 @@ describe("Request Transformer Module", () => {
       );
     });
 
+    it("should truncate tool outputs per tool using the output policy", async () => {
+      const body: RequestBody = {
+        model: "gpt-5-codex",
+        input: [
+          { type: "message", role: "user", content: "hello" },
+          { type: "function_call", call_id: "read_1", name: "read", arguments: "{}" } as any,
+          { type: "function_call_output", call_id: "read_1", output: "r".repeat(300) } as any,
+          { type: "function_call", call_id: "bash_1", name: "bash", arguments: "{}" } as any,
+          { type: "function_call_output", call_id: "bash_1", output: "b".repeat(300) } as any,
+        ],
+      };
+
+      const result = await transformRequestBody(body, undefined, true, {
+        maxChars: 100,
+        tailChars: 0,
+        tools: { read: { maxChars: 1000 } },
+      });
+
+      expect(result.input![2].output).toBe("r".repeat(300));
+      expect(result.input![4].output).toBe(
+        `${"b".repeat(100)}\n...[truncated 200 of 300 chars]...`,
+      );
+    });
+
+    it("should leave matched tool outputs untouched without an output policy", async () => {
+      const body: RequestBody = {
+        model: "gpt-5-codex",
+        input: [
+          { type: "function_call", call_id: "read_1", name: "read", arguments: "{}" } as any,
+          { type: "function_call_output", call_id: "read_1", output: "r".repeat(20_000) } as any,
+        ],
+      };
+
+      const result = await transformRequestBody(body, undefined, true);
+
+      expect(result.input![1].output).toBe("r".repeat(20_000));
+    });
+
+    it("should truncate an oversized orphaned output only once", async () => {
+      const orphanedInput = () => [
+        { type: "message", role: "user", content: "hello" },
+        { type: "function_call_output", call_id: "orphan_1", output: "o".repeat(20_000) } as any,
+      ];
+      const policy = { maxChars: 16000, tailChars: 0, tools: {} };
+
+      for (const toolOutputPolicy of [policy, undefined]) {
+        const result = await transformRequestBody(
+          { model: "gpt-5-codex", input: orphanedInput() },
+          undefined,
+          true,
+          toolOutputPolicy,
+        );
+        const content = String(result.input!.at(-1)!.content);
+
+        expect(content).toContain("[Previous tool result; call_id=orphan_1]");
+        expect(content).toContain("...[truncated 4000 of 20000 chars]...");
+        expect(content.match(/\[truncated/g)).toHaveLength(1);
+      }
+    });
+
     describe("CODEX_MODE parameter", () => {
       it("should use bridge message when codexMode=true and tools present (default)", async () => {
         const body: RequestBody = {
@@ -112,6 +112,26 @@ data: {"id":"resp_multiline","output":"ok"}}
 			expect(body).toEqual({ id: 'resp_multiline', output: 'ok' });
 		});
 
+		it('should parse events split across chunks mid-line and mid-character', async () => {
+			const bytes = new TextEncoder().encode(
+				'event: response.done\r\ndata: {"type":"response.done","response":{"id":"resp_✓"}}\r\n\r\n',
+			);
+			const split = bytes.indexOf(0xe2) + 1;
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(bytes.slice(0, 20));
+					controller.enqueue(bytes.slice(20, split));
+					controller.enqueue(bytes.slice(split));
+					controller.close();
+				},
+			});
+
+			const result = await convertSseToJson(new Response(stream), new Headers());
+			const body = await result.json();
+
+			expect(body).toEqual({ id: 'resp_✓' });
+		});
+
 		it('should handle empty SSE stream', async () => {
 			const response = new Response('');
 			const headers = new Headers();
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyFetchError,
+  classifyResponseStatus,
+  getRetryDelayMs,
+  parseRetryAfterMs,
+} from "../lib/request/retry-policy.js";
+import { TimeoutError } from "../lib/request/timeouts.js";
+
+describe("Retry policy", () => {
+  it("retries server errors but never client errors", () => {
+    for (const status of [500, 502, 503, 504]) {
+      expect(classifyResponseStatus(status)).toBe("retryable");
+    }
+    for (const status of [200, 400, 401, 403, 404, 422, 429, 501]) {
+      expect(classifyResponseStatus(status)).toBe("fatal");
+    }
+  });
+
+  it("retries network errors but not aborts", () => {
+    const networkError = new TypeError("fetch failed", {
+      cause: Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+    });
+    expect(classifyFetchError(networkError)).toBe("retryable");
+    expect(classifyFetchError(new TypeError("fetch failed"))).toBe("retryable");
+    expect(
+      classifyFetchError(Object.assign(new Error("dns"), { code: "EAI_AGAIN" })),
+    ).toBe("retryable");
+
+    const abortError = new DOMException("The operation was aborted", "AbortError");
+    expect(classifyFetchError(abortError)).toBe("fatal");
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(classifyFetchError(networkError, controller.signal)).toBe("fatal");
+
+    expect(classifyFetchError(new TimeoutError("responses", "connect", 60_000))).toBe("retryable");
+    expect(classifyFetchError(new TypeError("Invalid URL"))).toBe("fatal");
+    expect(classifyFetchError("boom")).toBe("fatal");
+  });
+
+  it("backs off exponentially with full jitter up to the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(getRetryDelayMs(0, policy, undefined, () => 1)).toBe(1000);
+    expect(getRetryDelayMs(1, policy, undefined, () => 1)).toBe(2000);
+    expect(getRetryDelayMs(2, policy, undefined, () => 0.5)).toBe(2000);
+    expect(getRetryDelayMs(10, policy, undefined, () => 1)).toBe(5000);
+    expect(getRetryDelayMs(3, policy, undefined, () => 0)).toBe(0);
+  });
+
+  it("honours Retry-After only when it fits under the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, maxDelayMs: 5000 };
+    expect(getRetryDelayMs(0, policy, 3000, () => 0)).toBe(3000);
+    expect(getRetryDelayMs(0, policy, 60_000, () => 0)).toBe(0);
+
+    expect(parseRetryAfterMs("2")).toBe(2000);
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+    expect(parseRetryAfterMs("Wed, 21 Oct 2015 07:28:00 GMT")).toBeUndefined();
+  });
+});
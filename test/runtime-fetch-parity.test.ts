@@ -1,10 +1,17 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 const transformRequestForCodexMock = vi.fn();
+const recordUsageMock = vi.fn();
+const getModelInfoMock = vi.fn();
 
-vi.mock('@opencode-ai/plugin', () => ({
-	tool: (definition: unknown) => definition,
-}));
+// The package entry re-exports "./tool" without an extension, which Node cannot
+// resolve; its "./tool" export carries the same `tool` helper and zod schema.
+vi.mock('@opencode-ai/plugin', () =>
+	vi.importActual<typeof import('@opencode-ai/plugin')>('@opencode-ai/plugin/tool'),
+);
 
 vi.mock('../lib/request/fetch-helpers.js', async () => {
 	const actual = await vi.importActual<typeof import('../lib/request/fetch-helpers.js')>(
@@ -16,9 +23,22 @@ vi.mock('../lib/request/fetch-helpers.js', async () => {
 	};
 });
 
-vi.mock('../lib/accounts/index.js', () => {
+vi.mock('../lib/models.js', async () => {
+	const actual = await vi.importActual<typeof import('../lib/models.js')>('../lib/models.js');
+	return {
+		...actual,
+		getModelInfo: (slug: string) => getModelInfoMock(slug) ?? actual.getModelInfo(slug),
+	};
+});
+
+vi.mock('../lib/accounts/index.js', async () => {
+	const actual = await vi.importActual<typeof import('../lib/accounts/index.js')>(
+		'../lib/accounts/index.js',
+	);
+
 	class AccountManager {
 		private account = {
+			id: 'acct_test',
 			index: 0,
 			email: 'test@example.com',
 			access: 'access-token',
@@ -28,40 +48,67 @@ vi.mock('../lib/accounts/index.js', () => {
 
 		async loadFromDisk() {}
 		async importFromOpenCodeAuth() {}
+		startWatching() {}
+		startHealthProbes() {}
+		recordSuccess() {}
+		getStorageError() {
+			return null;
+		}
 		getAllAccounts() {
 			return [this.account];
 		}
 		getAccountCount() {
 			return 1;
 		}
+		getAccountById(id: string) {
+			return id === this.account.id ? this.account : null;
+		}
+		isAccountUsable() {
+			return true;
+		}
+		getEarliestAvailableTime() {
+			return null;
+		}
 		getActiveAccount() {
 			return this.account;
 		}
 		async getNextAvailableAccount() {
 			return this.account;
 		}
+		async getNextAvailableAccountExcluding() {
+			return null;
+		}
 		async getNextAvailableAccountForNewSession() {
 			return this.account;
 		}
 		async ensureValidToken() {
 			return true;
 		}
+		tryAcquireInFlight() {
+			return () => {};
+		}
+		getInFlightOverflow() {
+			return 'spill';
+		}
 		markRateLimited() {}
 		markRefreshFailed() {}
+		updateDrainState() {
+			return false;
+		}
 		async addAccount() {}
 	}
 
-	return { AccountManager };
+	return { ...actual, AccountManager };
 });
 
 vi.mock('../lib/session-bindings.js', () => {
 	class SessionBindingStore {
-		private map = new Map<string, number>();
+		private map = new Map<string, string>();
 		loadFromDisk() {}
 		get(key: string) {
 			return this.map.get(key);
 		}
-		set(key: string, value: number) {
+		set(key: string, value: string) {
 			this.map.set(key, value);
 		}
 		delete(key: string) {
@@ -72,9 +119,30 @@ vi.mock('../lib/session-bindings.js', () => {
 	return { SessionBindingStore };
 });
 
+vi.mock('../lib/usage-ledger.js', async () => {
+	const actual = await vi.importActual<typeof import('../lib/usage-ledger.js')>(
+		'../lib/usage-ledger.js',
+	);
+
+	class UsageLedger {
+		record = recordUsageMock;
+		getAccountTotals() {
+			return actual.emptyUsageTotals();
+		}
+		summarize() {
+			return [];
+		}
+	}
+
+	return { ...actual, UsageLedger };
+});
+
 describe('Runtime fetch parity', () => {
 	beforeEach(() => {
 		transformRequestForCodexMock.mockReset();
+		recordUsageMock.mockReset();
+		getModelInfoMock.mockReset();
+		process.env.OPENCODE_OPENAI_CACHE_DIR = mkdtempSync(join(tmpdir(), 'runtime-fetch-parity-'));
 		(globalThis as any).fetch = vi.fn(async () => {
 			return new Response('data: {"type":"response.done"}\n\n', {
 				status: 200,
@@ -116,4 +184,324 @@ describe('Runtime fetch parity', () => {
 		expect(transformRequestForCodexMock).not.toHaveBeenCalled();
 		expect((globalThis as any).fetch).toHaveBeenCalled();
 	});
+
+	it('still sends the request when saving the new session account fails', async () => {
+		const { AccountManager } = await import('../lib/accounts/index.js');
+		const { StorageMigrationError } = await import('../lib/storage-migrations.js');
+		vi.spyOn(AccountManager.prototype, 'getNextAvailableAccountForNewSession').mockRejectedValueOnce(
+			new StorageMigrationError('Accounts file is not valid JSON', 'openai-accounts.json'),
+		);
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast: vi.fn() },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		const response = await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', prompt_cache_key: 'ses_save_fails', input: [] }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Accounts file is not valid JSON'));
+		errorSpy.mockRestore();
+	});
+
+	it('retries a transient 5xx before handing the response to OpenCode', async () => {
+		const responses = [
+			new Response('bad gateway', { status: 502, headers: { 'Retry-After': '0' } }),
+			new Response('data: {"type":"response.done"}\n\n', {
+				status: 200,
+				headers: { 'content-type': 'text/event-stream' },
+			}),
+		];
+		const fetchMock = vi.fn(async (url: string) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: responses.shift()!,
+		);
+		(globalThis as any).fetch = fetchMock;
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast: vi.fn() },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		const response = await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', input: [] }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(fetchMock.mock.calls.filter(([url]) => url.includes('/responses'))).toHaveLength(2);
+	});
+
+	it('clamps the reasoning effort again for a fallback model', async () => {
+		const levels: Record<string, string[]> = {
+			'gpt-5.3-codex': ['low', 'medium', 'high', 'xhigh'],
+			'gpt-5.2-codex': ['low', 'medium', 'high'],
+		};
+		getModelInfoMock.mockImplementation((slug: string) =>
+			levels[slug] ? { slug, supported_reasoning_levels: levels[slug].map((effort) => ({ effort })) } : undefined,
+		);
+		const responses = [
+			new Response(JSON.stringify({ detail: "The 'gpt-5.3-codex' model is not supported when using Codex" }), {
+				status: 400,
+			}),
+			new Response('data: {"type":"response.done"}\n\n', {
+				status: 200,
+				headers: { 'content-type': 'text/event-stream' },
+			}),
+		];
+		const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: responses.shift()!,
+		);
+		(globalThis as any).fetch = fetchMock;
+		// The 400 handler writes a debug log under the home directory
+		const originalHome = process.env.HOME;
+		process.env.HOME = process.env.OPENCODE_OPENAI_CACHE_DIR;
+		try {
+			const { OpenAIAuthPlugin } = await import('../index.js');
+
+			const plugin = await OpenAIAuthPlugin({
+				client: {
+					auth: { set: vi.fn() },
+					tui: { showToast: vi.fn() },
+				},
+			} as any);
+			const loader = await plugin.auth.loader(
+				async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+				{} as any,
+			);
+
+			await loader.fetch('https://chatgpt.com/backend-api/responses', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json' },
+				body: JSON.stringify({ model: 'gpt-5.3-codex', reasoning: { effort: 'xhigh' }, input: [] }),
+			});
+		} finally {
+			process.env.HOME = originalHome;
+		}
+
+		const calls = fetchMock.mock.calls.filter(([url]) => url.includes('/responses'));
+		expect(calls).toHaveLength(2);
+		expect(JSON.parse(calls[0][1]!.body as string).reasoning.effort).toBe('xhigh');
+		const retried = JSON.parse(calls[1][1]!.body as string);
+		expect(retried.model).toBe('gpt-5.2-codex');
+		expect(retried.reasoning.effort).toBe('high');
+	});
+
+	it('compacts the input and retries when the context window is exceeded', async () => {
+		const responses = [
+			new Response(
+				JSON.stringify({ error: { code: 'context_length_exceeded', message: 'Your input exceeds the context window of this model.' } }),
+				{ status: 400 },
+			),
+			new Response('data: {"type":"response.done"}\n\n', {
+				status: 200,
+				headers: { 'content-type': 'text/event-stream' },
+			}),
+		];
+		const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: responses.shift()!,
+		);
+		(globalThis as any).fetch = fetchMock;
+		const showToast = vi.fn();
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		const input = [
+			{ type: 'message', role: 'user', content: 'read the file' },
+			{ type: 'function_call', call_id: 'call_1', name: 'read', arguments: '{}' },
+			{ type: 'function_call_output', call_id: 'call_1', output: 'x'.repeat(50_000) },
+			...Array.from({ length: 8 }, (_, i) => ({ type: 'message', role: 'user', content: `turn ${i}` })),
+		];
+		const response = await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', input }),
+		});
+
+		expect(response.status).toBe(200);
+		const calls = fetchMock.mock.calls.filter(([url]) => url.includes('/responses'));
+		expect(calls).toHaveLength(2);
+		const retried = JSON.parse(calls[1][1]!.body as string);
+		expect(retried.input).toHaveLength(input.length);
+		expect(retried.input[2].output.length).toBeLessThan(1_000);
+		expect(showToast).toHaveBeenCalledWith({
+			body: expect.objectContaining({ message: expect.stringContaining('1 tool outputs shortened') }),
+		});
+	});
+
+	it('compacts the input and retries when a stream fails with a context overflow', async () => {
+		const failed = {
+			type: 'response.failed',
+			response: {
+				error: { code: 'context_length_exceeded', message: 'Your input exceeds the context window of this model.' },
+			},
+		};
+		const responses = [
+			new Response(`data: {"type":"response.created"}\n\ndata: ${JSON.stringify(failed)}\n\n`, {
+				status: 200,
+				headers: { 'content-type': 'text/event-stream' },
+			}),
+			new Response('data: {"type":"response.output_text.delta","delta":"ok"}\n\ndata: {"type":"response.done"}\n\n', {
+				status: 200,
+				headers: { 'content-type': 'text/event-stream' },
+			}),
+		];
+		const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: responses.shift()!,
+		);
+		(globalThis as any).fetch = fetchMock;
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast: vi.fn() },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		const input = [
+			{ type: 'message', role: 'user', content: 'read the file' },
+			{ type: 'function_call', call_id: 'call_1', name: 'read', arguments: '{}' },
+			{ type: 'function_call_output', call_id: 'call_1', output: 'x'.repeat(50_000) },
+			...Array.from({ length: 8 }, (_, i) => ({ type: 'message', role: 'user', content: `turn ${i}` })),
+		];
+		const response = await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', stream: true, input }),
+		});
+
+		const text = await response.text();
+		expect(text).toContain('"delta":"ok"');
+		expect(text).not.toContain('context_length_exceeded');
+		const calls = fetchMock.mock.calls.filter(([url]) => url.includes('/responses'));
+		expect(calls).toHaveLength(2);
+		expect(JSON.parse(calls[1][1]!.body as string).input[2].output.length).toBeLessThan(1_000);
+	});
+
+	it('records token usage from the completed event while streaming it through', async () => {
+		const completed = {
+			type: 'response.completed',
+			response: {
+				model: 'gpt-5.3-codex',
+				usage: {
+					input_tokens: 1200,
+					input_tokens_details: { cached_tokens: 1000 },
+					output_tokens: 300,
+					output_tokens_details: { reasoning_tokens: 120 },
+				},
+			},
+		};
+		const sse = `data: {"type":"response.output_text.delta","delta":"hi"}\n\ndata: ${JSON.stringify(completed)}\n\n`;
+		(globalThis as any).fetch = vi.fn(async (url: string) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: new Response(sse, { status: 200, headers: { 'content-type': 'text/event-stream' } }),
+		);
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast: vi.fn() },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		const response = await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', prompt_cache_key: 'ses_usage', input: [] }),
+		});
+
+		expect(await response.text()).toBe(sse);
+		expect(recordUsageMock).toHaveBeenCalledWith('acct_test', 'gpt-5.3-codex', 'ses_usage', {
+			inputTokens: 1200,
+			cachedInputTokens: 1000,
+			outputTokens: 300,
+			reasoningTokens: 120,
+		});
+	});
+
+	it('clamps a reasoning effort the model does not support before sending', async () => {
+		getModelInfoMock.mockImplementation((slug: string) =>
+			slug === 'gpt-5.3-codex'
+				? { slug, supported_reasoning_levels: [{ effort: 'low' }, { effort: 'medium' }, { effort: 'high' }] }
+				: undefined,
+		);
+		const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+			url.includes('/models')
+				? new Response(JSON.stringify({ models: [] }), { status: 200 })
+				: new Response('data: {"type":"response.done"}\n\n', {
+						status: 200,
+						headers: { 'content-type': 'text/event-stream' },
+					}),
+		);
+		(globalThis as any).fetch = fetchMock;
+		const { OpenAIAuthPlugin } = await import('../index.js');
+
+		const plugin = await OpenAIAuthPlugin({
+			client: {
+				auth: { set: vi.fn() },
+				tui: { showToast: vi.fn() },
+			},
+		} as any);
+		const loader = await plugin.auth.loader(
+			async () => ({ type: 'oauth', access: 'access-token', refresh: 'refresh-token', expires: Date.now() + 60_000 }) as any,
+			{} as any,
+		);
+
+		await loader.fetch('https://chatgpt.com/backend-api/responses', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ model: 'gpt-5.3-codex', reasoning: { effort: 'xhigh', summary: 'auto' }, input: [] }),
+		});
+
+		const [call] = fetchMock.mock.calls.filter(([url]) => url.includes('/responses'));
+		expect(JSON.parse(call[1]!.body as string).reasoning).toEqual({ effort: 'high', summary: 'auto' });
+	});
 });
@@ -0,0 +1,84 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { tryAcquireFileLock, updateJsonSecure, withFileLock } from "../lib/secure-file.js";
+
+describe("secure-file locking", () => {
+	const tempRoots: string[] = [];
+
+	afterEach(() => {
+		for (const root of tempRoots.splice(0, tempRoots.length)) {
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	function createPath(): string {
+		const root = mkdtempSync(join(tmpdir(), "opencode-secure-file-"));
+		tempRoots.push(root);
+		return join(root, "data.json");
+	}
+
+	it("grants the lock to one holder at a time", () => {
+		const path = createPath();
+		const release = tryAcquireFileLock(path);
+		expect(release).not.toBeNull();
+		expect(tryAcquireFileLock(path)).toBeNull();
+
+		release!();
+		expect(existsSync(`${path}.lock`)).toBe(false);
+		const again = tryAcquireFileLock(path);
+		expect(again).not.toBeNull();
+		again!();
+	});
+
+	it("breaks locks left behind by dead processes", () => {
+		const path = createPath();
+		writeFileSync(`${path}.lock`, JSON.stringify({ pid: 2 ** 22 + 1, acquiredAt: Date.now() }));
+
+		const release = tryAcquireFileLock(path);
+		expect(release).not.toBeNull();
+		release!();
+	});
+
+	it("waits for a live lock without blocking the event loop", async () => {
+		const path = createPath();
+		const release = tryAcquireFileLock(path)!;
+		const ran: string[] = [];
+
+		const locked = withFileLock(path, () => ran.push("locked"));
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		ran.push("timer");
+		expect(ran).toEqual(["timer"]);
+
+		release();
+		await locked;
+		expect(ran).toEqual(["timer", "locked"]);
+	});
+
+	it("takes over a held lock only once it is stale", async () => {
+		const path = createPath();
+		writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.ppid, acquiredAt: Date.now() }));
+		const fn = vi.fn();
+
+		const locked = withFileLock(path, fn, 200);
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(fn).not.toHaveBeenCalled();
+
+		await locked;
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it("merges against the current file contents", async () => {
+		const path = createPath();
+		writeFileSync(path, JSON.stringify({ count: 1 }));
+
+		const written = await updateJsonSecure(path, (current) => ({
+			count: ((current as { count: number }).count ?? 0) + 1,
+		}));
+
+		expect(written).toEqual({ count: 2 });
+		expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({ count: 2 });
+		expect(existsSync(`${path}.lock`)).toBe(false);
+	});
+});
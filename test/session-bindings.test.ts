@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
@@ -21,44 +21,81 @@ describe("SessionBindingStore", () => {
 		return { root, filePath, store };
 	}
 
-	it("loads empty state when file does not exist", () => {
+	it("loads empty state when file does not exist", async () => {
 		const { store } = createStore();
-		store.loadFromDisk();
+		await store.loadFromDisk();
 		expect(store.get("ses_missing")).toBeUndefined();
 	});
 
-	it("persists bindings across store instances", () => {
+	it("persists bindings across store instances", async () => {
 		const { filePath, store } = createStore();
-		store.loadFromDisk();
-		store.set("ses_abc", 1);
+		await store.loadFromDisk();
+		await store.set("ses_abc", "acct_b");
 
 		const nextStore = new SessionBindingStore(filePath);
-		nextStore.loadFromDisk();
-		expect(nextStore.get("ses_abc")).toBe(1);
+		await nextStore.loadFromDisk();
+		expect(nextStore.get("ses_abc")).toBe("acct_b");
 	});
 
-	it("persists deletes across store instances", () => {
+	it("persists deletes across store instances", async () => {
 		const { filePath, store } = createStore();
-		store.loadFromDisk();
-		store.set("ses_abc", 2);
-		store.delete("ses_abc");
+		await store.loadFromDisk();
+		await store.set("ses_abc", "acct_c");
+		await store.delete("ses_abc");
 
 		const nextStore = new SessionBindingStore(filePath);
-		nextStore.loadFromDisk();
+		await nextStore.loadFromDisk();
 		expect(nextStore.get("ses_abc")).toBeUndefined();
 	});
 
-	it("ignores malformed persistence files", () => {
+	it("migrates index-based bindings to account IDs", async () => {
+		const { filePath, store } = createStore();
+		writeFileSync(
+			filePath,
+			JSON.stringify({ version: 1, bindings: { ses_a: 0, ses_b: 1, ses_gone: 5 } }),
+			"utf8",
+		);
+		const ids = ["acct_a", "acct_b"];
+		await store.loadFromDisk((index) => ids[index]);
+
+		expect(store.get("ses_a")).toBe("acct_a");
+		expect(store.get("ses_b")).toBe("acct_b");
+		expect(store.get("ses_gone")).toBeUndefined();
+
+		const persisted = JSON.parse(readFileSync(filePath, "utf8"));
+		expect(persisted).toEqual({
+			version: 2,
+			bindings: { ses_a: "acct_a", ses_b: "acct_b" },
+		});
+	});
+
+	it("keeps bindings written by other store instances", async () => {
+		const { filePath, store } = createStore();
+		await store.loadFromDisk();
+		const other = new SessionBindingStore(filePath);
+		await other.loadFromDisk();
+
+		await store.set("ses_a", "acct_a");
+		await other.set("ses_b", "acct_b");
+		await store.delete("ses_missing");
+		await store.set("ses_c", "acct_c");
+
+		const persisted = JSON.parse(readFileSync(filePath, "utf8"));
+		expect(persisted.bindings).toEqual({ ses_a: "acct_a", ses_b: "acct_b", ses_c: "acct_c" });
+		expect(store.get("ses_b")).toBe("acct_b");
+	});
+
+	it("ignores malformed persistence files", async () => {
 		const { filePath, store } = createStore();
 		writeFileSync(filePath, "not-json", "utf8");
-		expect(() => store.loadFromDisk()).not.toThrow();
+		await expect(store.loadFromDisk()).resolves.toBeUndefined();
 		expect(store.get("ses_abc")).toBeUndefined();
 	});
 
-	it("writes bindings file with owner-only permissions", () => {
+	it("writes bindings file with owner-only permissions", async () => {
 		const { filePath, store } = createStore();
-		store.loadFromDisk();
-		store.set("ses_secure", 1);
+		await store.loadFromDisk();
+		await store.set("ses_secure", "acct_b");
 
 		const mode = statSync(filePath).mode & 0o777;
 		expect(mode).toBe(0o600);
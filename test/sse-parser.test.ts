@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { createSseObserver, createSseParser, parseSseData, type SseEvent } from "../lib/request/sse-parser.js";
+
+const encoder = new TextEncoder();
+
+/** Feed the bytes in chunks split at the given offsets */
+function parseChunks(bytes: Uint8Array, splits: number[] = []): SseEvent[] {
+  const parser = createSseParser();
+  const events: SseEvent[] = [];
+  let start = 0;
+  for (const end of [...splits, bytes.length]) {
+    events.push(...parser.push(bytes.slice(start, end)));
+    start = end;
+  }
+  events.push(...parser.end());
+  return events;
+}
+
+const parse = (text: string) => parseChunks(encoder.encode(text));
+
+describe("SSE parser", () => {
+  it("parses fields, multi-line data and comments", () => {
+    const events = parse(
+      ": keep-alive\n" +
+        "event: response.created\nid: 1\nretry: 3000\ndata: {\"a\":\ndata:1}\n\n" +
+        "data\n\n" +
+        "id: 2\nretry: soon\nfoo: ignored\ndata:  two spaces\n\n",
+    );
+
+    expect(events).toEqual([
+      { event: "response.created", data: '{"a":\n1}', id: "1", retry: 3000 },
+      { event: "message", data: "", id: "1", retry: 3000 },
+      { event: "message", data: " two spaces", id: "2", retry: 3000 },
+    ]);
+  });
+
+  it("does not dispatch events without data", () => {
+    expect(parse("event: ping\nid: 5\n\n: comment\n\n")).toEqual([]);
+  });
+
+  it("accepts CRLF, LF and CR line endings", () => {
+    const events = parse("data: a\r\n\r\ndata: b\n\ndata: c\r\rdata: d\r\n\n");
+    expect(events.map((event) => event.data)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("returns the same events for every chunk boundary", () => {
+    const text = 'event: delta\r\ndata: {"delta":"héllo ✓ 🚀"}\r\n\r\ndata: end\r\n\r\n';
+    const bytes = encoder.encode(text);
+    const expected = parseChunks(bytes);
+
+    expect(expected.map((event) => event.data)).toEqual(['{"delta":"héllo ✓ 🚀"}', "end"]);
+    for (let split = 1; split < bytes.length; split++) {
+      expect(parseChunks(bytes, [split])).toEqual(expected);
+    }
+    // One byte at a time splits every line and every multi-byte character
+    const everyByte = Array.from({ length: bytes.length - 1 }, (_, index) => index + 1);
+    expect(parseChunks(bytes, everyByte)).toEqual(expected);
+  });
+
+  it("dispatches an unterminated final event at the end of the stream", () => {
+    expect(parse('data: {"type":"response.done"}').map((event) => event.data)).toEqual([
+      '{"type":"response.done"}',
+    ]);
+  });
+
+  it("parses Responses API payloads", () => {
+    expect(parseSseData('{"type":"response.completed","response":{}}')).toEqual({
+      type: "response.completed",
+      response: {},
+    });
+    expect(parseSseData("[DONE]")).toBeNull();
+    expect(parseSseData("not-json")).toBeNull();
+    expect(parseSseData('{"no":"type"}')).toBeNull();
+  });
+});
+
+describe("SSE observer", () => {
+  it("passes bytes through unchanged while reporting events in flight", async () => {
+    const text = 'data: {"type":"response.created"}\n\ndata: {"type":"response.completed"}\n\n';
+    const bytes = encoder.encode(text);
+    const seen: string[] = [];
+    let firstSeenAfterChunk = -1;
+    let chunkCount = 0;
+
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 40));
+        controller.enqueue(bytes.slice(40));
+        controller.close();
+      },
+    });
+    const observed = source.pipeThrough(
+      createSseObserver((event) => {
+        if (seen.length === 0) firstSeenAfterChunk = chunkCount;
+        seen.push(parseSseData(event.data)?.type ?? "");
+      }),
+    );
+
+    const reader = observed.getReader();
+    const received: number[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunkCount++;
+      received.push(...value);
+    }
+
+    expect(new Uint8Array(received)).toEqual(bytes);
+    expect(seen).toEqual(["response.created", "response.completed"]);
+    // The first event is reported before the stream has finished
+    expect(firstSeenAfterChunk).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	StorageMigrationError,
+	getMigrationBackupPath,
+	migrateStorage,
+	type VersionedStorage,
+} from "../lib/storage-migrations.js";
+
+const storage: VersionedStorage = {
+	name: "test file",
+	currentVersion: 3,
+	migrations: [
+		{ from: 1, migrate: (data) => ({ ...data, items: [data.item] }) },
+		{ from: 2, migrate: (data) => ({ ...data, count: (data.items as unknown[]).length }) },
+	],
+};
+
+describe("migrateStorage", () => {
+	const tempRoots: string[] = [];
+
+	afterEach(() => {
+		for (const root of tempRoots.splice(0, tempRoots.length)) {
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	function createFile(data: unknown): string {
+		const root = mkdtempSync(join(tmpdir(), "opencode-migrations-"));
+		tempRoots.push(root);
+		const path = join(root, "data.json");
+		writeFileSync(path, JSON.stringify(data));
+		return path;
+	}
+
+	it("applies each step in order and backs up every version", () => {
+		const path = createFile({ version: 1, item: "a" });
+		const { data, migrated } = migrateStorage(path, { version: 1, item: "a" }, storage);
+
+		expect(migrated).toBe(true);
+		expect(data).toEqual({ version: 3, item: "a", items: ["a"], count: 1 });
+		expect(JSON.parse(readFileSync(getMigrationBackupPath(path, 1), "utf8"))).toEqual({
+			version: 1,
+			item: "a",
+		});
+		expect(JSON.parse(readFileSync(getMigrationBackupPath(path, 2), "utf8")).version).toBe(2);
+	});
+
+	it("leaves current data untouched", () => {
+		const path = createFile({ version: 3, count: 0 });
+		const { migrated } = migrateStorage(path, { version: 3, count: 0 }, storage);
+
+		expect(migrated).toBe(false);
+		expect(existsSync(getMigrationBackupPath(path, 3))).toBe(false);
+	});
+
+	it("refuses files written by a newer version", () => {
+		const path = createFile({ version: 4 });
+		expect(() => migrateStorage(path, { version: 4 }, storage)).toThrow(StorageMigrationError);
+		expect(() => migrateStorage(path, { version: 4 }, storage)).toThrow(/version 4.*update the plugin/);
+	});
+
+	it("reports unrecognized formats and missing migrations", () => {
+		const path = createFile([]);
+		expect(() => migrateStorage(path, [], storage)).toThrow(/Unrecognized test file format/);
+		expect(() => migrateStorage(path, { version: 0 }, storage)).toThrow(/No migration for test file from version 0/);
+	});
+});
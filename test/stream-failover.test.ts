@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  STREAM_INTERRUPTED_CODE,
+  withStreamFailover,
+} from "../lib/request/stream-failover.js";
+
+const encoder = new TextEncoder();
+
+function sse(...events: Record<string, unknown>[]): string {
+  return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+}
+
+/** SSE response that emits the given chunks, then either ends or errors */
+function streamResponse(chunks: string[], failWith?: Error): Response {
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else if (failWith) {
+        controller.error(failWith);
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+const created = { type: "response.created", sequence_number: 0 };
+const itemAdded = { type: "response.output_item.added", sequence_number: 1 };
+const delta = { type: "response.output_text.delta", delta: "hi", sequence_number: 2 };
+const completed = { type: "response.completed", response: { id: "resp_1" }, sequence_number: 3 };
+
+describe("Stream failover", () => {
+  it("passes a healthy stream through unchanged", async () => {
+    const text = sse(created, itemAdded, delta, completed);
+    const reissue = vi.fn();
+    const response = withStreamFailover(streamResponse([text]), { reissue });
+
+    expect(await response.text()).toBe(text);
+    expect(reissue).not.toHaveBeenCalled();
+  });
+
+  it("re-issues the request when the connection drops before any output", async () => {
+    const retried = sse(created, itemAdded, delta, completed);
+    const reissue = vi.fn(async () => streamResponse([retried]));
+    const response = withStreamFailover(
+      streamResponse([sse(created)], new TypeError("terminated")),
+      { reissue },
+    );
+
+    expect(await response.text()).toBe(retried);
+    expect(reissue).toHaveBeenCalledWith("Stream interrupted: terminated");
+  });
+
+  it("re-issues on response.failed before output", async () => {
+    const failed = {
+      type: "response.failed",
+      response: { error: { code: "server_error", message: "The server had an error" } },
+    };
+    const retried = sse(created, itemAdded, completed);
+    const reissue = vi.fn(async () => streamResponse([retried]));
+    const response = withStreamFailover(streamResponse([sse(created, failed)]), { reissue });
+
+    expect(await response.text()).toBe(retried);
+    expect(reissue).toHaveBeenCalledWith("The server had an error");
+  });
+
+  it("passes deterministic failures through without re-issuing", async () => {
+    const failed = {
+      type: "response.failed",
+      response: { error: { code: "context_length_exceeded", message: "Input exceeds the context window" } },
+    };
+    const errorEvent = { type: "error", code: "invalid_request_error", message: "Bad input", param: null };
+    const reissue = vi.fn(async () => streamResponse([sse(created, completed)]));
+
+    for (const failure of [failed, errorEvent]) {
+      const text = sse(created, failure);
+      const response = withStreamFailover(streamResponse([text]), { reissue });
+      expect(await response.text()).toBe(text);
+    }
+    expect(reissue).not.toHaveBeenCalled();
+  });
+
+  it("forwards the backend failure when no other account can take the request", async () => {
+    const text = sse(created, { type: "response.failed", response: { error: { message: "boom" } } });
+    const response = withStreamFailover(streamResponse([text]), {
+      reissue: async () => null,
+    });
+
+    expect(await response.text()).toBe(text);
+  });
+
+  it("ends with a typed error event when the stream breaks after output started", async () => {
+    const partial = sse(created, itemAdded, delta);
+    const reissue = vi.fn();
+    const response = withStreamFailover(
+      streamResponse([partial], new TypeError("terminated")),
+      { reissue },
+    );
+
+    const text = await response.text();
+    expect(reissue).not.toHaveBeenCalled();
+    expect(text.startsWith(partial)).toBe(true);
+    const errorEvent = JSON.parse(text.slice(partial.length).split("data: ")[1]);
+    expect(errorEvent).toEqual({
+      type: "error",
+      code: STREAM_INTERRUPTED_CODE,
+      message: "Stream interrupted: terminated",
+      param: null,
+      sequence_number: 3,
+    });
+  });
+
+  it("treats a stream that ends without a terminal event as interrupted", async () => {
+    const response = withStreamFailover(streamResponse([sse(created, itemAdded)]), {
+      reissue: async () => null,
+    });
+
+    expect(await response.text()).toContain(`"code":"${STREAM_INTERRUPTED_CODE}"`);
+  });
+
+  it("accepts a final completed event without a trailing blank line", async () => {
+    const text = sse(created, itemAdded, delta) + `data: ${JSON.stringify(completed)}`;
+    const reissue = vi.fn();
+    const response = withStreamFailover(streamResponse([text]), { reissue });
+
+    expect(await response.text()).toBe(text);
+    expect(reissue).not.toHaveBeenCalled();
+  });
+
+  it("propagates caller aborts instead of failing over", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const reissue = vi.fn();
+    const response = withStreamFailover(
+      streamResponse([], new DOMException("aborted", "AbortError")),
+      { reissue, signal: controller.signal },
+    );
+
+    await expect(response.text()).rejects.toThrow("aborted");
+    expect(reissue).not.toHaveBeenCalled();
+  });
+
+  it("leaves non-SSE responses alone", () => {
+    const response = new Response("{}", { headers: { "content-type": "application/json" } });
+    expect(withStreamFailover(response, { reissue: async () => null })).toBe(response);
+  });
+});
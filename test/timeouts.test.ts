@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_TIMEOUTS,
+  TimeoutError,
+  fetchWithTimeouts,
+  loadTimeoutSettings,
+} from "../lib/request/timeouts.js";
+
+const originalFetch = globalThis.fetch;
+
+/** fetch stand-in that settles like undici: rejects with the signal's reason on abort */
+function mockFetch(respond?: (signal: AbortSignal) => Response) {
+  const fetchMock = vi.fn(
+    (_input: unknown, init?: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const signal = init!.signal!;
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        if (respond) resolve(respond(signal));
+      }),
+  );
+  (globalThis as any).fetch = fetchMock;
+  return fetchMock;
+}
+
+/** Body that sends one chunk, then stalls until aborted */
+function stallingBody(signal: AbortSignal): ReadableStream<Uint8Array> {
+  let sent = false;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (!sent) {
+        sent = true;
+        controller.enqueue(new TextEncoder().encode("data: {}\n\n"));
+        return;
+      }
+      return new Promise<void>((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+    },
+  });
+}
+
+describe("Outbound timeouts", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    globalThis.fetch = originalFetch;
+  });
+
+  it("aborts with a connect timeout when no response arrives", async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockFetch();
+
+    const promise = fetchWithTimeouts("models", "https://example.com/models");
+    const assertion = expect(promise).rejects.toMatchObject({
+      name: "TimeoutError",
+      call: "models",
+      phase: "connect",
+    });
+    await vi.advanceTimersByTimeAsync(DEFAULT_TIMEOUTS.models.connectMs);
+    await assertion;
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it("aborts a stream that goes idle after the first chunk", async () => {
+    vi.useFakeTimers();
+    let upstreamSignal: AbortSignal | undefined;
+    mockFetch((signal) => {
+      upstreamSignal = signal;
+      return new Response(stallingBody(signal), { status: 200 });
+    });
+
+    const response = await fetchWithTimeouts("status", "https://example.com/usage");
+    const reader = response.body!.getReader();
+    expect((await reader.read()).done).toBe(false);
+
+    const next = reader.read();
+    const assertion = expect(next).rejects.toBeInstanceOf(TimeoutError);
+    await vi.advanceTimersByTimeAsync(DEFAULT_TIMEOUTS.status.idleMs);
+    await assertion;
+    await expect(next).rejects.toMatchObject({ phase: "idle" });
+    expect(upstreamSignal?.aborted).toBe(true);
+  });
+
+  it("passes the caller's abort through instead of a timeout", async () => {
+    mockFetch();
+    const controller = new AbortController();
+
+    const promise = fetchWithTimeouts("responses", "https://example.com/responses", {
+      signal: controller.signal,
+    });
+    controller.abort(new Error("user cancelled"));
+
+    await expect(promise).rejects.toThrow("user cancelled");
+  });
+
+  it("detaches from the caller's signal once the body is done", async () => {
+    mockFetch(() => new Response("done", { status: 200 }));
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const response = await fetchWithTimeouts("responses", "https://example.com/responses", {
+      signal: controller.signal,
+    });
+    expect(remove).not.toHaveBeenCalled();
+    expect(await response.text()).toBe("done");
+
+    expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0][1]);
+  });
+
+  it("reads per-call overrides from the environment", () => {
+    const settings = loadTimeoutSettings({
+      OPENCODE_OPENAI_TIMEOUT_RESPONSES_IDLE_SECONDS: "600",
+      OPENCODE_OPENAI_TIMEOUT_REFRESH_CONNECT_SECONDS: "0",
+      OPENCODE_OPENAI_TIMEOUT_MODELS_FIRST_BYTE_SECONDS: "nope",
+    });
+
+    expect(settings.responses.idleMs).toBe(600_000);
+    expect(settings.refresh.connectMs).toBe(0);
+    expect(settings.models.firstByteMs).toBe(DEFAULT_TIMEOUTS.models.firstByteMs);
+    expect(settings.status).toEqual(DEFAULT_TIMEOUTS.status);
+  });
+});
@@ -0,0 +1,157 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withUsageTap } from "../lib/request/usage-tap.js";
+import { formatUsageTotals, UsageLedger } from "../lib/usage-ledger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usage = (inputTokens: number, outputTokens = 10) => ({
+  inputTokens,
+  cachedInputTokens: 0,
+  outputTokens,
+  reasoningTokens: 0,
+});
+
+describe("UsageLedger", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "usage-ledger-"));
+    filePath = join(dir, "usage.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("accumulates usage per account, model and session", () => {
+    const ledger = new UsageLedger(filePath);
+    ledger.record("a", "gpt-5.2-codex", "s1", usage(100));
+    ledger.record("a", "gpt-5.2-codex", "s1", usage(50));
+    ledger.record("a", "gpt-5.2", "s2", usage(20));
+    ledger.record("b", "gpt-5.2-codex", undefined, usage(500));
+    ledger.flush();
+
+    expect(ledger.getEntries()).toHaveLength(3);
+    expect(ledger.getAccountTotals("a")).toMatchObject({ requests: 3, inputTokens: 170, outputTokens: 30 });
+    expect(ledger.summarize("account").map(({ key }) => key)).toEqual(["b", "a"]);
+    expect(ledger.summarize("model")).toEqual([
+      { key: "gpt-5.2-codex", totals: expect.objectContaining({ requests: 3, inputTokens: 650 }) },
+      { key: "gpt-5.2", totals: expect.objectContaining({ requests: 1, inputTokens: 20 }) },
+    ]);
+  });
+
+  it("shares one file between ledger instances", () => {
+    const first = new UsageLedger(filePath);
+    const second = new UsageLedger(filePath);
+    first.record("a", "gpt-5.2-codex", "s1", usage(100));
+    second.record("a", "gpt-5.2-codex", "s1", usage(100));
+    expect(first.flush()).toBe(true);
+    expect(second.flush()).toBe(true);
+
+    expect(new UsageLedger(filePath).getAccountTotals("a").inputTokens).toBe(200);
+  });
+
+  it("buffers usage and writes it without waiting for a taken lock", () => {
+    const ledger = new UsageLedger(filePath);
+    ledger.record("a", "gpt-5.2-codex", "s1", usage(100));
+    expect(existsSync(filePath)).toBe(false);
+
+    writeFileSync(`${filePath}.lock`, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+    expect(ledger.flush()).toBe(false);
+    expect(existsSync(filePath)).toBe(false);
+    // Buffered usage is still reported
+    expect(ledger.getAccountTotals("a").inputTokens).toBe(100);
+
+    rmSync(`${filePath}.lock`);
+    expect(ledger.flush()).toBe(true);
+    expect(new UsageLedger(filePath).getAccountTotals("a").inputTokens).toBe(100);
+  });
+
+  it("only counts the days inside the requested window", () => {
+    const ledger = new UsageLedger(filePath);
+    const now = Date.now();
+    ledger.record("a", "gpt-5.2-codex", "s1", usage(1_000), now - 10 * DAY_MS);
+    ledger.record("a", "gpt-5.2-codex", "s1", usage(100), now);
+    ledger.flush();
+
+    expect(ledger.summarize("session", 7, now)).toEqual([
+      { key: "s1", totals: expect.objectContaining({ requests: 1, inputTokens: 100 }) },
+    ]);
+    expect(ledger.summarize("session", 30, now)[0].totals.inputTokens).toBe(1_100);
+  });
+
+  it("prunes days older than 30 days", () => {
+    const ledger = new UsageLedger(filePath);
+    const now = Date.now();
+    ledger.record("a", "gpt-5.2-codex", "old", usage(100), now - 31 * DAY_MS);
+    ledger.record("a", "gpt-5.2-codex", "new", usage(100), now);
+    ledger.flush();
+
+    expect(ledger.getEntries().map((entry) => entry.sessionKey)).toEqual(["new"]);
+  });
+
+  it("formats totals for status output", () => {
+    expect(
+      formatUsageTotals({
+        requests: 37,
+        inputTokens: 1_200_000,
+        cachedInputTokens: 800_000,
+        outputTokens: 45_000,
+        reasoningTokens: 12_000,
+      }),
+    ).toBe("1.2M in (800.0k cached), 45.0k out (12.0k reasoning), 37 requests");
+  });
+});
+
+describe("withUsageTap", () => {
+  const completed = JSON.stringify({
+    type: "response.completed",
+    response: {
+      model: "gpt-5.2-codex",
+      usage: {
+        input_tokens: 1200,
+        input_tokens_details: { cached_tokens: 800 },
+        output_tokens: 300,
+        output_tokens_details: { reasoning_tokens: 120 },
+      },
+    },
+  });
+  const body = `data: {"type":"response.output_text.delta","delta":"hi"}\n\ndata: ${completed}\n\n`;
+
+  const streamOf = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+  };
+
+  it("reports usage from a completed event split across chunks and passes the bytes through", async () => {
+    const onUsage = vi.fn();
+    const split = body.indexOf("input_tokens");
+    const response = withUsageTap(
+      new Response(streamOf([body.slice(0, split), body.slice(split)]), {
+        headers: { "content-type": "text/event-stream" },
+      }),
+      onUsage,
+    );
+
+    expect(await response.text()).toBe(body);
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "gpt-5.2-codex",
+      usage: { inputTokens: 1200, cachedInputTokens: 800, outputTokens: 300, reasoningTokens: 120 },
+    });
+  });
+
+  it("leaves non-streaming responses untouched", () => {
+    const response = Response.json({ ok: true });
+    expect(withUsageTap(response, vi.fn())).toBe(response);
+  });
+});